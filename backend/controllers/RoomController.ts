@@ -1,30 +1,173 @@
 import { RoomService } from "../services/RoomService";
-import { Room } from "../models/Room";
+import { LeaderElection } from "../services/LeaderElection";
+import { ServerRegistry } from "../services/ServerRegistry";
+import { SessionService } from "../services/SessionService";
+import { Account, AccountService } from "../services/AccountService";
+import {
+  MatchHistoryService,
+  MatchRecord,
+} from "../services/MatchHistoryService";
+import { LeaderboardEntry, RatingService } from "../services/RatingService";
+import {
+  ReplayData,
+  ReplayService,
+  StoredReplay,
+} from "../services/ReplayService";
+import {
+  MATCH_JOIN_TIMEOUT_MS,
+  MatchSeat,
+  MatchmakingService,
+  MatchmakingTicket,
+} from "../services/MatchmakingService";
+import { FinishedMatch, MatchEndReason, Room, RoomMode } from "../models/Room";
+import { Player, PlayerRole } from "../models/Player";
+import { TournamentFormat } from "../models/Tournament";
+import { MatchRules } from "../game/rules";
+import {
+  GameSnapshot,
+  SnapshotMessage,
+  createSnapshot,
+  encodeSnapshot,
+} from "../game/snapshot";
+import {
+  WireFormat,
+  decodePaddleInputBinary,
+  encodeSnapshotBinary,
+} from "../game/wireFormat";
 import * as socketIo from "socket.io";
 
+// How long a disconnected player keeps their place (and their match waits)
+const DISCONNECT_GRACE_MS = parseInt(
+  process.env.DISCONNECT_GRACE_MS || "30000"
+);
+
 interface JoinRoomData {
   roomName: string;
   password: string;
   playerName: string;
+  asSpectator?: boolean; // Watch only; can join while a match is running
+  sessionToken?: string; // From a previous room-joined, to resume that player
+  matchToken?: string; // From match-found, to take a seat in a public match
+}
+
+interface AccountData {
+  username: string;
+  password: string;
+}
+
+interface GetMatchHistoryData {
+  playerName?: string; // Defaults to the account or the player in the room
+  limit?: number;
+}
+
+interface FindMatchData {
+  playerName: string; // Ignored when logged in: the username is used
+}
+
+interface GetLeaderboardData {
+  limit?: number;
 }
 
-interface GameUpdateData {
-  ball: any;
-  paddles: any;
-  scores: any;
+interface GetReplayData {
+  matchId: string; // From the match history
+}
+
+interface PaddleInputData {
+  direction?: number; // -1 up, 0 stop, 1 down
+  target?: number; // Desired paddle Y (top edge)
+  ticks?: number; // Physics ticks this input covers (defaults to 1)
+  sequence: number; // Increases with every input the client sends
 }
 
 interface UpdateSelectedPlayersData {
   selectedPlayers: string[];
 }
 
+interface SnapshotAckData {
+  tick: number;
+}
+
+interface SetSnapshotRateData {
+  rate: number;
+}
+
+interface SetRoomModeData {
+  mode: RoomMode;
+}
+
+interface ReorderCourtQueueData {
+  names: string[]; // Every name in the queue, in the new order
+}
+
+interface TransferHostData {
+  playerId: string;
+}
+
+interface SetSuccessorData {
+  playerId: string | null; // null: the longest present player takes over
+}
+
+interface ModeratePlayerData {
+  playerId: string;
+}
+
+interface LockRoomData {
+  locked: boolean;
+}
+
+interface StartTournamentData {
+  format: TournamentFormat;
+  rules?: Partial<MatchRules>;
+}
+
+// Sent to the other servers when a host removes a player (see
+// removePlayerByHost), with the reason shown to them
+interface PlayerRemovedData {
+  room: string;
+  playerName: string;
+  reason: "kicked" | "banned";
+  message: string;
+}
+
+// A public match player who reached this server before their opponent
+interface MatchArrival extends MatchSeat {
+  socketId: string;
+  arrivedAt: number;
+}
+
 export class RoomController {
   private readonly roomService: RoomService;
   private readonly io: socketIo.Server;
+  private readonly leaderElection: LeaderElection;
+  private readonly serverRegistry: ServerRegistry;
+  private readonly sessionService: SessionService;
+  private readonly accountService: AccountService;
+  private readonly matchHistory: MatchHistoryService;
+  private readonly ratings: RatingService;
+  private readonly replays: ReplayService;
+  private readonly matchmaking: MatchmakingService;
+  // Rooms whose Redis channels this server listens to
+  private readonly subscribedRooms: Set<string>;
+  // Public match players waiting here for their opponent, by room name
+  private readonly matchArrivals: Map<string, MatchArrival>;
 
-  constructor(io: socketIo.Server) {
+  constructor(
+    io: socketIo.Server,
+    leaderElection: LeaderElection,
+    serverRegistry: ServerRegistry
+  ) {
     this.roomService = new RoomService();
     this.io = io;
+    this.leaderElection = leaderElection;
+    this.serverRegistry = serverRegistry;
+    this.sessionService = new SessionService();
+    this.accountService = new AccountService();
+    this.matchHistory = new MatchHistoryService();
+    this.ratings = new RatingService();
+    this.replays = new ReplayService();
+    this.matchmaking = new MatchmakingService(serverRegistry.getServerId());
+    this.subscribedRooms = new Set();
+    this.matchArrivals = new Map();
   }
 
   async handleJoinRoom(
@@ -32,14 +175,42 @@ export class RoomController {
     data: JoinRoomData
   ): Promise<void> {
     try {
-      const { roomName, password, playerName } = data;
+      // Public match players take the seat matchmaking gave them; once in,
+      // they resume with their session like anyone else
+      if (data?.matchToken && !data.sessionToken) {
+        await this.handleJoinMatch(socket, data.roomName, data.matchToken);
+        return;
+      }
+
+      const { roomName, password } = data;
+      const role: PlayerRole = data.asSpectator ? "spectator" : "player";
+      const account: Account | null = socket.data.account ?? null;
+      // Logged in players always play under their username
+      const playerName = account ? account.username : data.playerName;
+
+      // A valid token resumes the player it was issued to, in this room only;
+      // anything else joins as a new player
+      const resumed = data.sessionToken
+        ? await this.sessionService.resume(data.sessionToken)
+        : null;
+      const session = resumed?.roomName === roomName ? resumed : null;
+
+      if (!session) {
+        await this.assertNameNotRegistered(playerName, account);
+      }
+
+      // Joining a room by hand leaves the matchmaking queue. Done first: a
+      // failure here must not leave the player in the room
+      await this.matchmaking.cancel(socket.id);
 
       // Use failover-safe room joining for enhanced security
       const room = await this.roomService.joinRoomWithFailoverCheck(
         roomName,
         password,
         socket.id,
-        playerName
+        playerName,
+        role,
+        session
       );
       console.log(
         "Room joined successfully:",
@@ -49,11 +220,26 @@ export class RoomController {
         "hostId:",
         room.hostId
       );
-
-      // Use hostName for host identification (more reliable across server reconnections)
-      const isHost = room.hostName === playerName;
-      socket.emit("room-joined", { success: true, isHost, room: roomName });
+      const player = this.roomService.getPlayer(socket.id);
+      if (player) {
+        // A resumed session keeps the account it was started with
+        player.accountId = session ? session.accountId : account?.id ?? null;
+      }
+      const isHost = player?.isHost ?? false;
+      const joinedRole = player?.role ?? "player";
+      const sessionToken = session
+        ? data.sessionToken
+        : await this.startSession(roomName, player);
+      socket.emit("room-joined", {
+        success: true,
+        isHost,
+        role: joinedRole,
+        room: roomName,
+        sessionToken,
+      });
       socket.join(roomName);
+      // Follow the room's match and forward inputs, wherever it runs
+      await this.subscribeToRoomUpdates(roomName);
 
       const roomData = {
         name: room.name,
@@ -64,6 +250,13 @@ export class RoomController {
         gameState: room.gameState,
         isGameActive: room.isGameActive,
         selectedPlayers: room.selectedPlayers,
+        snapshotRate: room.snapshotRate,
+        tournament: room.tournament,
+        mode: room.mode,
+        courtQueue: room.courtQueue,
+        successorName: room.successorName,
+        isLocked: room.isLocked,
+        isMatchmade: room.isMatchmade,
       };
       console.log(
         "Sending room-update to socket:",
@@ -74,16 +267,163 @@ export class RoomController {
       socket.emit("room-update", roomData);
       console.log("Broadcasting room update to room:", roomName);
       this.broadcastRoomUpdate(socket, roomName);
+
+      if (room.pause && room.gameState) {
+        // Match taken over after a failover: everyone gets the restored state
+        // (with the players' new socket ids) and the pause status
+        this.io.to(roomName).emit("game-started", room.gameState);
+        this.io.to(roomName).emit("game-paused", room.pause);
+      } else if (
+        joinedRole === "spectator" &&
+        room.isGameActive &&
+        room.gameState
+      ) {
+        // Spectators arriving mid-match go straight to the game view
+        socket.emit("game-started", room.gameState);
+      }
     } catch (error: any) {
       console.error("Error in handleJoinRoom:", error);
       socket.emit("room-joined", { success: false, message: error.message });
     }
   }
 
-  handleStartGame(socket: socketIo.Socket, selectedPlayerIds: string[]): void {
+  // Without logging in, nobody can play under a registered username
+  private async assertNameNotRegistered(
+    playerName: unknown,
+    account: Account | null
+  ): Promise<void> {
+    if (account || typeof playerName !== "string") {
+      return;
+    }
+    // Refused when the check itself fails: the name could be taken
+    const registered = await this.accountService
+      .isRegistered(playerName)
+      .catch(() => {
+        throw new Error(
+          "No se pudo comprobar el nombre del jugador. Inténtalo de nuevo."
+        );
+      });
+    if (registered) {
+      throw new Error(
+        "Ese nombre pertenece a una cuenta registrada. Inicia sesión para usarlo."
+      );
+    }
+  }
+
+  // Issue a session for a player who joined without one. Without Redis the
+  // player simply gets no token and can't resume after a disconnect.
+  private async startSession(
+    roomName: string,
+    player: Player | undefined
+  ): Promise<string | undefined> {
+    if (!player) return undefined;
+
+    try {
+      const { session, token } = await this.sessionService.issue(
+        roomName,
+        player.name,
+        player.role,
+        player.accountId
+      );
+      player.sessionId = session.id;
+      return token;
+    } catch (error) {
+      console.error("Failed to issue session:", error);
+      return undefined;
+    }
+  }
+
+  // Handshake: a socket connecting with the login token of an account is
+  // logged in before any of its events are handled
+  async authenticate(socket: socketIo.Socket): Promise<void> {
+    const token = socket.handshake.auth?.accountToken;
+    if (!token) return;
+
+    try {
+      const account = await this.accountService.resume(token);
+      if (account) {
+        socket.data.account = account;
+        socket.data.accountToken = token;
+      }
+    } catch (error) {
+      console.error("Failed to resume login:", error);
+    }
+  }
+
+  async handleRegister(
+    socket: socketIo.Socket,
+    data: AccountData
+  ): Promise<void> {
+    await this.logIn(socket, () =>
+      this.accountService.register(data?.username, data?.password)
+    );
+  }
+
+  async handleLogin(socket: socketIo.Socket, data: AccountData): Promise<void> {
+    await this.logIn(socket, () =>
+      this.accountService.login(data?.username, data?.password)
+    );
+  }
+
+  async handleLogout(socket: socketIo.Socket): Promise<void> {
+    try {
+      this.assertNotInRoom(socket);
+      await this.accountService.logout(socket.data.accountToken);
+      socket.data.account = null;
+      socket.data.accountToken = null;
+      socket.emit("logged-out");
+    } catch (error: any) {
+      socket.emit("error", { message: error.message });
+    }
+  }
+
+  // Register and login both end with the socket logged in and the client
+  // holding the token for its next connections
+  private async logIn(
+    socket: socketIo.Socket,
+    authenticate: () => Promise<{ account: Account; token: string }>
+  ): Promise<void> {
+    try {
+      this.assertNotInRoom(socket);
+      const { account, token } = await authenticate();
+      socket.data.account = account;
+      socket.data.accountToken = token;
+      socket.emit("logged-in", { success: true, account, accountToken: token });
+    } catch (error: any) {
+      console.error("Error logging in:", error);
+      socket.emit("logged-in", { success: false, message: error.message });
+    }
+  }
+
+  // A player's name is fixed once in a room, so no switching accounts there
+  private assertNotInRoom(socket: socketIo.Socket): void {
+    if (this.roomService.getPlayer(socket.id)) {
+      throw new Error("Sal de la sala antes de cambiar de cuenta.");
+    }
+  }
+
+  // Leaving on purpose: no reconnection window, and the session can't be
+  // resumed any more
+  async handleLeaveRoom(socket: socketIo.Socket): Promise<void> {
+    const player = this.roomService.getPlayer(socket.id);
+    this.removePlayer(socket.id);
+    if (!player) return;
+
+    socket.leave(player.room);
+    if (player.sessionId) {
+      await this.sessionService.revoke(player.sessionId);
+    }
+  }
+
+  handleStartGame(
+    socket: socketIo.Socket,
+    selectedPlayerIds: string[],
+    rules?: Partial<MatchRules>
+  ): void {
     console.log("RoomController handleStartGame called");
     console.log("Socket ID:", socket.id);
     console.log("Selected players:", selectedPlayerIds);
+    console.log("Match rules:", rules);
 
     try {
       const player = this.roomService.getPlayer(socket.id);
@@ -127,11 +467,13 @@ export class RoomController {
         roomName: player.room,
         hostId: socket.id,
         selectedPlayerIds,
+        rules,
       });
       const result = this.roomService.startGame(
         player.room,
         socket.id,
-        selectedPlayerIds
+        selectedPlayerIds,
+        rules
       );
 
       console.log("RoomService.startGame returned:", result);
@@ -149,24 +491,162 @@ export class RoomController {
     }
   }
 
-  handleGameUpdate(socket: socketIo.Socket, data: GameUpdateData): void {
+  handlePaddleInput(
+    socket: socketIo.Socket,
+    payload: PaddleInputData | Buffer
+  ): void {
     try {
       const player = this.roomService.getPlayer(socket.id);
       if (!player) return;
 
-      const room = this.roomService.getRoom(player.room);
-      if (!room?.isGameActive) {
-        throw new Error("Game not active");
+      const data = Buffer.isBuffer(payload)
+        ? decodePaddleInputBinary(payload)
+        : payload;
+      if (!data) {
+        throw new Error("Entrada de paleta inválida");
+      }
+
+      this.roomService.applyPaddleInput(
+        player.room,
+        socket.id,
+        {
+          direction: data?.direction,
+          target: data?.target,
+          ticks: data?.ticks,
+        },
+        data?.sequence
+      );
+    } catch (error: any) {
+      socket.emit("error", { message: error.message });
+    }
+  }
+
+  handleSnapshotAck(socket: socketIo.Socket, data: SnapshotAckData): void {
+    const player = this.roomService.getPlayer(socket.id);
+    if (!player || !Number.isInteger(data?.tick)) return;
+
+    this.roomService
+      .getRoom(player.room)
+      ?.acknowledgeSnapshot(socket.id, data.tick);
+  }
+
+  handleSetSnapshotRate(
+    socket: socketIo.Socket,
+    data: SetSnapshotRateData
+  ): void {
+    try {
+      const player = this.roomService.getPlayer(socket.id);
+      if (!player) return;
+
+      this.roomService.setSnapshotRate(player.room, socket.id, data?.rate);
+      this.broadcastRoomUpdate(socket, player.room);
+    } catch (error: any) {
+      socket.emit("error", { message: error.message });
+    }
+  }
+
+  handleStartTournament(
+    socket: socketIo.Socket,
+    data: StartTournamentData
+  ): void {
+    try {
+      const player = this.roomService.getPlayer(socket.id);
+      if (!player) {
+        socket.emit("error", { message: "Player not found" });
+        return;
+      }
+
+      const room = this.roomService.startTournament(
+        player.room,
+        socket.id,
+        data?.format,
+        data?.rules
+      );
+
+      console.log(
+        `Tournament (${data.format}) started in room ${room.name} with`,
+        room.tournament?.entrants.length,
+        "players"
+      );
+      this.io.to(room.name).emit("game-started", room.gameState);
+      this.broadcastRoomUpdate(socket, room.name);
+    } catch (error: any) {
+      console.error("Error in handleStartTournament:", error);
+      socket.emit("error", { message: error.message });
+    }
+  }
+
+  // Record finished tournament matches and start the next ones once the
+  // break is over. Called from the server loop.
+  advanceTournaments(): void {
+    for (const room of this.roomService.getRoomsPlayingTournamentMatch()) {
+      if (this.roomService.recordTournamentResult(room)) {
+        this.broadcastRoomUpdateToRoom(room.name);
       }
+    }
 
-      if (data.paddles) {
-        room.gameState!.paddles = data.paddles;
+    for (const room of this.roomService.getRoomsWithDueTournamentMatch(
+      Date.now()
+    )) {
+      if (this.roomService.startNextTournamentMatch(room)) {
+        // Only the owner gets here: reach the room's sockets everywhere
+        this.io.to(room.name).emit("game-started", room.gameState);
+      } else {
+        console.log(
+          `Tournament in room ${room.name} finished, champion:`,
+          room.tournament?.champion
+        );
       }
+      this.broadcastRoomUpdateToRoom(room.name);
+    }
+  }
+
+  handleSetRoomMode(socket: socketIo.Socket, data: SetRoomModeData): void {
+    try {
+      const player = this.roomService.getPlayer(socket.id);
+      if (!player) return;
+
+      this.roomService.setRoomMode(player.room, socket.id, data?.mode);
+      this.broadcastRoomUpdate(socket, player.room);
+    } catch (error: any) {
+      socket.emit("error", { message: error.message });
+    }
+  }
+
+  handleReorderCourtQueue(
+    socket: socketIo.Socket,
+    data: ReorderCourtQueueData
+  ): void {
+    try {
+      const player = this.roomService.getPlayer(socket.id);
+      if (!player) return;
+
+      this.roomService.reorderCourtQueue(player.room, socket.id, data?.names);
+      this.broadcastRoomUpdate(socket, player.room);
     } catch (error: any) {
       socket.emit("error", { message: error.message });
     }
   }
 
+  // King of the court: rotate the queue after each game and put the next
+  // challenger on court once the break is over. Called from the server loop.
+  advanceCourtQueues(): void {
+    for (const room of this.roomService.getRoomsPlayingCourtMatch()) {
+      if (this.roomService.recordCourtResult(room)) {
+        this.broadcastRoomUpdateToRoom(room.name);
+      }
+    }
+
+    for (const room of this.roomService.getRoomsWithDueCourtMatch(
+      Date.now()
+    )) {
+      if (this.roomService.startNextCourtMatch(room)) {
+        this.io.to(room.name).emit("game-started", room.gameState);
+      }
+      this.broadcastRoomUpdateToRoom(room.name);
+    }
+  }
+
   handleBackToLobby(socket: socketIo.Socket): void {
     try {
       const player = this.roomService.getPlayer(socket.id);
@@ -202,6 +682,13 @@ export class RoomController {
           gameState: room.gameState,
           isGameActive: room.isGameActive,
           selectedPlayers: room.selectedPlayers,
+          snapshotRate: room.snapshotRate,
+          tournament: room.tournament,
+          mode: room.mode,
+          courtQueue: room.courtQueue,
+          successorName: room.successorName,
+          isLocked: room.isLocked,
+          isMatchmade: room.isMatchmade,
         };
         console.log(
           "Sending room-update to socket:",
@@ -221,11 +708,54 @@ export class RoomController {
     }
   }
 
+  // A dropped connection. Players with a session keep their place for
+  // DISCONNECT_GRACE_MS (their match paused) in case they reconnect.
   handleDisconnect(socket: socketIo.Socket): void {
     console.log("handleDisconnect called for socket:", socket.id);
+    this.matchmaking.cancel(socket.id).catch((error) => {
+      console.error("Failed to leave the matchmaking queue:", error);
+    });
     const player = this.roomService.getPlayer(socket.id);
+
+    if (player?.sessionId && DISCONNECT_GRACE_MS > 0) {
+      const room = this.roomService.markDisconnected(
+        socket.id,
+        Date.now() + DISCONNECT_GRACE_MS
+      );
+      console.log(
+        `Player ${player.name} disconnected, waiting ${DISCONNECT_GRACE_MS}ms for them to reconnect`
+      );
+      if (room) {
+        this.broadcastRoomUpdateToRoom(room.name);
+        if (room.pause) {
+          this.io.to(room.name).emit("game-paused", room.pause);
+        }
+      }
+      return;
+    }
+
+    this.removePlayer(socket.id, "disconnect");
+  }
+
+  // Players whose reconnection window closed lose their place: their match
+  // is forfeited and, if they hosted the room, it migrates to another
+  // player. Called from the server loop.
+  expireDisconnectedPlayers(): void {
+    for (const player of this.roomService.getExpiredDisconnects(Date.now())) {
+      console.log(`Player ${player.name} did not reconnect in time`);
+      this.removePlayer(player.id, "disconnect");
+    }
+  }
+
+  // Take a player out of their room for good. A match they were playing is
+  // lost, for `reason`.
+  private removePlayer(
+    playerId: string,
+    reason: MatchEndReason = "forfeit"
+  ): void {
+    const player = this.roomService.getPlayer(playerId);
     console.log(
-      "Player found on disconnect:",
+      "Removing player:",
       player ? { id: player.id, name: player.name, room: player.room } : null
     );
 
@@ -239,40 +769,35 @@ export class RoomController {
       );
 
       if (room) {
-        if (room.isGameActive && room.gameState) {
-          const isPlayer = room.gameState.players.some(
-            (p) => p.id === socket.id
-          );
-          console.log("Player in active game:", isPlayer);
-          if (isPlayer) {
-            const otherPlayer = room.gameState.players.find(
-              (p) => p.id !== socket.id
-            );
-            if (otherPlayer) {
-              room.gameState.winner = otherPlayer.id;
-              console.log("Setting winner due to disconnect:", otherPlayer.id);
-            }
-            this.broadcastRoomUpdate(socket, player.room);
+        const wasPaused = !!room.pause;
+        if (room.forfeit(playerId, reason)) {
+          console.log("Setting winner due to disconnect:", room.gameState?.winner);
+          // Saved now: the room may be gone once the player has left
+          this.saveMatches(room.takeFinishedMatches());
+          if (wasPaused) {
+            this.io.to(player.room).emit("game-resumed");
           }
+          this.broadcastRoomUpdateToRoom(player.room);
         }
 
-        // Check host disconnection using both hostName (primary) and hostId (fallback)
-        const isHostDisconnect =
-          player.name === room.hostName || player.id === room.hostId;
-        if (isHostDisconnect) {
-          // Host disconnected, delete room
-          console.log("Host disconnected, deleting room:", player.room);
-          this.roomService.deleteRoom(player.room);
-          socket.to(player.room).emit("room-deleted");
-          socket.emit("room-deleted");
+        // A host leaving hands the room over; only with nobody left to
+        // take it is the room deleted
+        const newHost = this.roomService.leaveRoom(playerId);
+        if (!this.roomService.getRoom(player.room)) {
+          console.log("Host left with nobody to take over:", player.room);
+          this.io.to(player.room).emit("room-deleted");
         } else {
-          console.log("Regular player disconnecting, removing from room");
-          this.roomService.leaveRoom(socket.id);
-          this.broadcastRoomUpdate(socket, player.room);
+          if (newHost) {
+            this.announceHostChange(player.room, newHost);
+          }
+          this.broadcastRoomUpdateToRoom(player.room);
+          if (room.pause) {
+            this.io.to(player.room).emit("game-paused", room.pause);
+          }
         }
       } else {
         console.log("No room found, just removing player from global map");
-        this.roomService.leaveRoom(socket.id);
+        this.roomService.leaveRoom(playerId);
       }
 
       // Force cleanup to ensure no stale entries remain
@@ -280,11 +805,445 @@ export class RoomController {
       this.roomService.forceCleanupPlayer(player.id, player.name);
     } else {
       console.log("No player found for socket, attempting cleanup");
-      this.roomService.leaveRoom(socket.id);
+      this.roomService.leaveRoom(playerId);
+    }
+  }
+
+  // Save the matches decided on this server to the match history and rate
+  // them. Called from the server loop.
+  recordFinishedMatches(): void {
+    this.saveMatches(this.roomService.takeFinishedMatches());
+  }
+
+  private saveMatches(matches: FinishedMatch[]): void {
+    for (const match of matches) {
+      this.matchHistory
+        .record(match)
+        .then((record) =>
+          match.recording
+            ? this.replays.save(record, match.recording)
+            : undefined
+        )
+        .catch((error) => {
+          console.error("Failed to record match:", error);
+        });
+      this.ratings.recordMatch(match).catch((error) => {
+        console.error("Failed to update ratings:", error);
+      });
+    }
+  }
+
+  // A player's latest matches (by account if the name is registered), or
+  // the latest of all rooms without a name. Also behind GET /matches.
+  async getMatchHistory(
+    playerName: unknown,
+    limit?: unknown
+  ): Promise<MatchRecord[]> {
+    if (typeof playerName !== "string" || !playerName) {
+      return this.matchHistory.getRecent(limit);
+    }
+    // Without Redis, the name alone still finds the guest's matches
+    const account = await this.accountService
+      .find(playerName)
+      .catch(() => null);
+    return this.matchHistory.getForPlayer(
+      { name: playerName, accountId: account?.id ?? null },
+      limit
+    );
+  }
+
+  async handleGetMatchHistory(
+    socket: socketIo.Socket,
+    data: GetMatchHistoryData
+  ): Promise<void> {
+    try {
+      const playerName =
+        data?.playerName ??
+        socket.data.account?.username ??
+        this.roomService.getPlayer(socket.id)?.name ??
+        null;
+      const matches = await this.getMatchHistory(playerName, data?.limit);
+      socket.emit("match-history", { playerName, matches });
+    } catch (error: any) {
+      socket.emit("error", { message: error.message });
+    }
+  }
+
+  // Queue up for a public match against someone of similar rating
+  async handleFindMatch(
+    socket: socketIo.Socket,
+    data: FindMatchData
+  ): Promise<void> {
+    try {
+      if (this.roomService.getPlayer(socket.id)) {
+        throw new Error("Sal de la sala antes de buscar partida.");
+      }
+
+      const account: Account | null = socket.data.account ?? null;
+      const playerName = account ? account.username : data?.playerName;
+      if (typeof playerName !== "string" || !playerName.trim()) {
+        throw new Error("Elige un nombre para buscar partida.");
+      }
+      if (playerName.length > 20) {
+        throw new Error("El nombre del jugador no puede exceder 20 caracteres.");
+      }
+      await this.assertNameNotRegistered(playerName, account);
+
+      const accountId = account?.id ?? null;
+      const ticket = await this.matchmaking.enqueue({
+        id: socket.id,
+        playerName,
+        accountId,
+        rating: await this.ratings.getRating(accountId),
+      });
+      socket.emit("match-searching", {
+        queuedAt: ticket.queuedAt,
+        rating: ticket.rating,
+      });
+    } catch (error: any) {
+      socket.emit("error", { message: error.message });
+    }
+  }
+
+  async handleCancelMatch(socket: socketIo.Socket): Promise<void> {
+    try {
+      await this.matchmaking.cancel(socket.id);
+      socket.emit("match-cancelled", {});
+    } catch (error: any) {
+      socket.emit("error", { message: error.message });
+    }
+  }
+
+  // On the leader, pair the players waiting on any server and send each
+  // pair to their match's room. Every server also drops the players whose
+  // opponent never showed up. Called from the server loop.
+  async runMatchmaking(): Promise<void> {
+    this.cancelUnfilledMatches();
+    if (!this.leaderElection.isLeader()) {
+      return;
+    }
+
+    const matches = await this.matchmaking.findMatches((serverId) =>
+      this.serverRegistry.isAlive(serverId)
+    );
+    for (const [first, second] of matches) {
+      await this.announceMatch(first, second);
+    }
+  }
+
+  private async announceMatch(
+    first: MatchmakingTicket,
+    second: MatchmakingTicket
+  ): Promise<void> {
+    const tickets = [first, second];
+    // Still connected, to whichever server
+    const connected = await Promise.all(
+      tickets.map(
+        async (ticket) =>
+          (await this.io.in(ticket.id).fetchSockets()).length > 0
+      )
+    );
+    if (!connected.every(Boolean)) {
+      for (const ticket of tickets.filter((_, index) => connected[index])) {
+        await this.matchmaking.requeue(ticket);
+      }
+      return;
+    }
+
+    // The room is created by the server it routes to, once both are there
+    const match = await this.matchmaking.createPendingMatch(first, second);
+    tickets.forEach((ticket, index) => {
+      const opponent = tickets[1 - index];
+      this.io.to(ticket.id).emit("match-found", {
+        room: match.room,
+        playerName: ticket.playerName,
+        opponent: { name: opponent.playerName, rating: opponent.rating },
+        matchToken: match.seats[index].token,
+      });
+    });
+    console.log(
+      `🎯 Matched ${first.playerName} (${first.rating}) with ${second.playerName} (${second.rating}) in ${match.room}`
+    );
+  }
+
+  // A paired player reaching the server of their match's room: the first
+  // waits for the second, who starts the match
+  private async handleJoinMatch(
+    socket: socketIo.Socket,
+    roomName: string,
+    matchToken: string
+  ): Promise<void> {
+    try {
+      if (this.roomService.getPlayer(socket.id)) {
+        throw new Error("Sal de la sala antes de unirte a la partida.");
+      }
+      const seat = await this.matchmaking.findSeat(roomName, matchToken);
+      if (!seat) {
+        throw new Error("La partida ya no está disponible.");
+      }
+
+      const arrival: MatchArrival = {
+        ...seat,
+        socketId: socket.id,
+        arrivedAt: Date.now(),
+      };
+      const waiting = this.matchArrivals.get(roomName);
+      if (
+        !waiting ||
+        waiting.token === seat.token ||
+        !this.io.sockets.sockets.has(waiting.socketId)
+      ) {
+        this.matchArrivals.set(roomName, arrival);
+        return;
+      }
+
+      this.matchArrivals.delete(roomName);
+      await this.matchmaking.closeMatch(roomName);
+      await this.startMatchmadeGame(roomName, waiting, arrival);
+    } catch (error: any) {
+      socket.emit("room-joined", { success: false, message: error.message });
+    }
+  }
+
+  private async startMatchmadeGame(
+    roomName: string,
+    first: MatchArrival,
+    second: MatchArrival
+  ): Promise<void> {
+    const arrivals = [first, second];
+    try {
+      const room = await this.roomService.createMatchRoom(
+        roomName,
+        { id: first.socketId, name: first.playerName },
+        { id: second.socketId, name: second.playerName }
+      );
+      await this.subscribeToRoomUpdates(roomName);
+
+      for (const arrival of arrivals) {
+        const socket = this.io.sockets.sockets.get(arrival.socketId);
+        const player = this.roomService.getPlayer(arrival.socketId);
+        if (player) {
+          player.accountId = arrival.accountId;
+        }
+
+        socket?.join(roomName);
+        socket?.emit("room-joined", {
+          success: true,
+          isHost: false,
+          role: "player",
+          room: roomName,
+          sessionToken: await this.startSession(roomName, player),
+        });
+      }
+      console.log(
+        `🎯 Started the match of ${first.playerName} and ${second.playerName} in ${roomName}`
+      );
+
+      this.broadcastRoomUpdateToRoom(roomName);
+      this.io.to(roomName).emit("game-started", room.gameState);
+    } catch (error: any) {
+      console.error("Failed to start matchmade game:", error);
+      for (const arrival of arrivals) {
+        this.io
+          .to(arrival.socketId)
+          .emit("match-cancelled", { message: error.message });
+      }
+    }
+  }
+
+  // Players whose opponent did not reach this server in time
+  private cancelUnfilledMatches(): void {
+    const now = Date.now();
+    for (const [roomName, arrival] of this.matchArrivals) {
+      if (now - arrival.arrivedAt < MATCH_JOIN_TIMEOUT_MS) {
+        continue;
+      }
+      this.matchArrivals.delete(roomName);
+      this.io.to(arrival.socketId).emit("match-cancelled", {
+        message: "Tu rival no llegó a la partida.",
+      });
+    }
+  }
+
+  // Highest rated players. Also behind GET /leaderboard.
+  async getLeaderboard(limit?: unknown): Promise<LeaderboardEntry[]> {
+    return this.ratings.getLeaderboard(limit);
+  }
+
+  async handleGetLeaderboard(
+    socket: socketIo.Socket,
+    data: GetLeaderboardData
+  ): Promise<void> {
+    try {
+      const entries = await this.getLeaderboard(data?.limit);
+      socket.emit("leaderboard", { entries });
+    } catch (error: any) {
+      socket.emit("error", { message: error.message });
+    }
+  }
+
+  // A match's recording as stored, for tools that replay it against the
+  // physics. Behind GET /replays/:matchId.
+  async getReplayRecording(matchId: unknown): Promise<StoredReplay> {
+    return this.replays.getRecording(matchId);
+  }
+
+  async handleGetReplay(
+    socket: socketIo.Socket,
+    data: GetReplayData
+  ): Promise<void> {
+    try {
+      const replay: ReplayData = await this.replays.getPlayback(data?.matchId);
+      socket.emit("replay", replay);
+    } catch (error: any) {
+      socket.emit("error", { message: error.message });
+    }
+  }
+
+  handleTransferHost(socket: socketIo.Socket, data: TransferHostData): void {
+    try {
+      const player = this.roomService.getPlayer(socket.id);
+      if (!player) return;
+
+      const newHost = this.roomService.transferHost(
+        player.room,
+        socket.id,
+        data?.playerId
+      );
+      this.announceHostChange(player.room, newHost);
+      this.broadcastRoomUpdate(socket, player.room);
+    } catch (error: any) {
+      socket.emit("error", { message: error.message });
+    }
+  }
+
+  handleSetSuccessor(socket: socketIo.Socket, data: SetSuccessorData): void {
+    try {
+      const player = this.roomService.getPlayer(socket.id);
+      if (!player) return;
+
+      this.roomService.setSuccessor(
+        player.room,
+        socket.id,
+        data?.playerId ?? null
+      );
+      this.broadcastRoomUpdate(socket, player.room);
+    } catch (error: any) {
+      socket.emit("error", { message: error.message });
+    }
+  }
+
+  async handleKickPlayer(
+    socket: socketIo.Socket,
+    data: ModeratePlayerData
+  ): Promise<void> {
+    await this.removePlayerByHost(socket, data, false);
+  }
+
+  async handleBanPlayer(
+    socket: socketIo.Socket,
+    data: ModeratePlayerData
+  ): Promise<void> {
+    await this.removePlayerByHost(socket, data, true);
+  }
+
+  handleLockRoom(socket: socketIo.Socket, data: LockRoomData): void {
+    try {
+      const player = this.roomService.getPlayer(socket.id);
+      if (!player) return;
+
+      this.roomService.setRoomLocked(player.room, socket.id, data?.locked);
+      this.broadcastRoomUpdate(socket, player.room);
+    } catch (error: any) {
+      socket.emit("error", { message: error.message });
+    }
+  }
+
+  // Kick (or ban) a player: they are told why, lose their place at once and
+  // their session, so they can't reconnect their way back in
+  private async removePlayerByHost(
+    socket: socketIo.Socket,
+    data: ModeratePlayerData,
+    ban: boolean
+  ): Promise<void> {
+    try {
+      const host = this.roomService.getPlayer(socket.id);
+      if (!host) return;
+
+      const target = this.roomService.kickPlayer(
+        host.room,
+        socket.id,
+        data?.playerId,
+        ban
+      );
+      console.log(
+        `${host.name} ${ban ? "banned" : "kicked"} ${target.name} from ${host.room}`
+      );
+
+      const removal: PlayerRemovedData = {
+        room: host.room,
+        playerName: target.name,
+        reason: ban ? "banned" : "kicked",
+        message: ban
+          ? "El anfitrión te expulsó de la sala y no puedes volver a entrar"
+          : "El anfitrión te expulsó de la sala",
+      };
+      await this.expelPlayer(target, removal);
+
+      // Any other server with them in the room (e.g. back there under a new
+      // socket) takes them out too; a ban also travels in the metadata
+      this.io.serverSideEmit("player-removed", removal);
+    } catch (error: any) {
+      socket.emit("error", { message: error.message });
     }
   }
 
+  // A host on another server removed a player of the room
+  async handleRemotePlayerRemoval(data: PlayerRemovedData): Promise<void> {
+    const target = this.roomService.findPlayerByName(
+      data?.room,
+      data?.playerName
+    );
+    if (!target) return;
+
+    console.log(`${target.name} was ${data.reason} from ${data.room}`);
+    await this.expelPlayer(target, data);
+  }
+
+  // Tell a player why they are out, wherever their socket is, and take
+  // them out of the room and their session
+  private async expelPlayer(
+    target: Player,
+    removal: PlayerRemovedData
+  ): Promise<void> {
+    this.io.to(target.id).emit("kicked", {
+      room: removal.room,
+      reason: removal.reason,
+      message: removal.message,
+    });
+    this.io.in(target.id).socketsLeave(removal.room);
+
+    this.removePlayer(target.id);
+    if (target.sessionId) {
+      await this.sessionService.revoke(target.sessionId);
+    }
+  }
+
+  // Tell the room who hosts it now, so clients switch controls in place
+  private announceHostChange(roomName: string, newHost: Player): void {
+    console.log(`Room ${roomName} is now hosted by ${newHost.name}`);
+    this.io.to(roomName).emit("room-host-changed", {
+      hostId: newHost.id,
+      hostName: newHost.name,
+    });
+  }
+
   broadcastRoomUpdate(socket: socketIo.Socket, roomName: string): void {
+    this.broadcastRoomUpdateToRoom(roomName);
+  }
+
+  // Same as broadcastRoomUpdate, for updates not triggered by a socket
+  broadcastRoomUpdateToRoom(roomName: string): void {
     const room = this.roomService.getRoom(roomName);
     if (room) {
       const data = {
@@ -296,11 +1255,19 @@ export class RoomController {
         gameState: room.gameState,
         isGameActive: room.isGameActive,
         selectedPlayers: room.selectedPlayers,
+        snapshotRate: room.snapshotRate,
+        tournament: room.tournament,
+        mode: room.mode,
+        courtQueue: room.courtQueue,
+        successorName: room.successorName,
+        isLocked: room.isLocked,
+        isMatchmade: room.isMatchmade,
       };
       console.log("broadcastRoomUpdate to room:", roomName, "data:", data);
 
       // Send to all clients in the room including the sender
-      this.io.to(roomName).emit("room-update", data);
+      // Every server sends its own view of the room to its own sockets
+      this.io.local.to(roomName).emit("room-update", data);
       console.log("Room update broadcasted to all clients in room:", roomName);
     } else {
       console.error("Room not found for broadcast:", roomName);
@@ -311,36 +1278,122 @@ export class RoomController {
     return this.roomService.getAllRooms();
   }
 
-  updateRoomState(roomName: string, state: any): void {
+  // Active games whose next game-update is due at their room's send rate
+  // Only the room's owner sends snapshots on its own schedule; other
+  // servers relay the owner's state as it arrives (see updateRoomState)
+  getRoomsDueForSnapshot(): Room[] {
+    return this.roomService
+      .getActiveGameRooms()
+      .filter(
+        (room) =>
+          this.roomService.isRoomOwner(room.name) && room.isSnapshotDue()
+      );
+  }
+
+  getRoomOwnerToken(roomName: string): number | null {
+    return this.roomService.getRoomOwnerToken(roomName);
+  }
+
+  // Renew room leases and checkpoint matches; the leader also adopts
+  // matches whose owner died (lease expired or server gone from the
+  // registry). Those are paused until both players are back.
+  async maintainRoomOwnership(): Promise<void> {
+    const takenOver = await this.roomService.maintainRoomOwnership(
+      this.leaderElection.isLeader(),
+      (serverId) => this.serverRegistry.isAlive(serverId)
+    );
+    for (const room of takenOver) {
+      this.io.to(room.name).emit("game-started", room.gameState);
+      this.io.to(room.name).emit("game-paused", room.pause);
+    }
+  }
+
+  // Resume paused matches whose countdown is over. Called from the server
+  // loop.
+  advancePausedMatches(): void {
+    const now = Date.now();
+    for (const room of this.roomService.getPausedRooms()) {
+      if (room.resumeIfDue(now)) {
+        this.io.local.to(room.name).emit("game-resumed");
+      }
+    }
+  }
+
+  // Send the current snapshot to every socket in the room, delta-encoded
+  // against the last snapshot each socket acknowledged. Sockets sharing a
+  // baseline share one encoded message. Returns the snapshot sent.
+  broadcastGameSnapshot(room: Room): GameSnapshot | null {
+    if (!room.gameState) return null;
+
+    const snapshot = createSnapshot(room.gameState);
+    room.recordSnapshot(snapshot);
+
+    const socketIds = this.io.sockets.adapter.rooms.get(room.name);
+    if (!socketIds) return snapshot;
+
+    // Sockets sharing a baseline and wire format get the very same payload
+    const messages = new Map<number | null, SnapshotMessage>();
+    const binaryMessages = new Map<number | null, Buffer>();
+    for (const socketId of socketIds) {
+      const base = room.getAckedSnapshot(socketId);
+      const baseTick = base ? base.tick : null;
+
+      let message = messages.get(baseTick);
+      if (!message) {
+        message = encodeSnapshot(snapshot, base);
+        messages.set(baseTick, message);
+      }
+
+      const format: WireFormat =
+        this.io.sockets.sockets.get(socketId)?.data.wireFormat ?? "json";
+      if (format === "binary") {
+        let binary = binaryMessages.get(baseTick);
+        if (!binary) {
+          binary = encodeSnapshotBinary(message, snapshot);
+          binaryMessages.set(baseTick, binary);
+        }
+        this.io.local.to(socketId).emit("game-update", binary);
+      } else {
+        this.io.local.to(socketId).emit("game-update", message);
+      }
+    }
+    return snapshot;
+  }
+
+  // Relay the owner's snapshots to the sockets connected to this server
+  updateRoomState(roomName: string, message: any): void {
     try {
       const room = this.roomService.getRoom(roomName);
       if (!room) return;
 
-      const remoteTimestamp = state.timestamp;
-      const localTimestamp = room.gameState?.timestamp || 0;
+      const thisServerId = process.env.SERVER_ID || "default-server";
+      if (message.serverId === thisServerId) return;
 
-      // Only update if remote state is newer or if we don't have local state
-      if (remoteTimestamp > localTimestamp || !room.gameState) {
-        // Check if this server is the leader (has more players in the room)
-        const thisServerPlayerCount = room.players.size + room.guests.size;
-        const remoteServerId = state.serverId;
-        const thisServerId = process.env.SERVER_ID || "default-server";
+      // Ignore state from an owner whose lease has already been taken over
+      if (
+        !this.roomService.acceptRemoteGameState(roomName, message.fencingToken)
+      ) {
+        return;
+      }
 
-        // If remote server is different and has more recent state, sync it
-        if (
-          remoteServerId !== thisServerId &&
-          remoteTimestamp > localTimestamp
-        ) {
-          room.gameState = {
-            ...state.state,
-            timestamp: remoteTimestamp,
-          };
-          room.isGameActive = true;
-
-          // Broadcast the updated state to all clients in the room
-          this.io.to(roomName).emit("game-update", room.gameState);
-        }
+      if (room.gameState?.startedAt === message.startedAt) {
+        room.applyRemoteSnapshot(message.snapshot);
+        this.broadcastGameSnapshot(room);
+        return;
       }
+
+      // A match not followed here yet: its players and rules come from the
+      // owner's checkpoint first
+      this.roomService
+        .followRemoteMatch(roomName, message.startedAt)
+        .then((followed) => {
+          if (!followed) return;
+          followed.applyRemoteSnapshot(message.snapshot);
+          this.broadcastGameSnapshot(followed);
+        })
+        .catch((error) => {
+          console.error("Failed to follow remote match:", error);
+        });
     } catch (error: any) {
       console.error("Failed to update room state:", error.message);
     }
@@ -372,10 +1425,16 @@ export class RoomController {
         // Create room with remote metadata
         room = new Room(
           roomData.name,
-          roomData.password,
+          roomData.passwordHash ?? null,
           roomData.hostId,
           roomData.hostName
         );
+        if (roomData.mode) {
+          room.applyCourtQueue(roomData.mode, roomData.courtQueue);
+        }
+        room.applyModeration(roomData);
+        room.applyTournament(roomData.tournament);
+        room.isMatchmade = !!roomData.isMatchmade;
 
         // Add room to RoomService using the public method
         this.roomService.addRoomFromMetadata(roomName, room);
@@ -406,6 +1465,32 @@ export class RoomController {
           // Broadcast updated room info
           this.broadcastRoomUpdate({} as socketIo.Socket, roomName);
         }
+
+        // Keep the room mode and king-of-the-court queue in step. The
+        // host changes the mode; the rotation is run by the room's owner.
+        if (
+          remoteServerId !== thisServerId &&
+          roomData.mode &&
+          (roomData.mode !== room.mode ||
+            !this.roomService.isRoomOwner(roomName))
+        ) {
+          room.applyCourtQueue(roomData.mode, roomData.courtQueue);
+          this.broadcastRoomUpdate({} as socketIo.Socket, roomName);
+        }
+
+        // Bans and the lock apply on every server
+        if (remoteServerId !== thisServerId) {
+          room.applyModeration(roomData);
+        }
+
+        // The tournament is run by the room's owner: follow its bracket
+        if (
+          remoteServerId !== thisServerId &&
+          !this.roomService.isRoomOwner(roomName)
+        ) {
+          room.applyTournament(roomData.tournament);
+          this.broadcastRoomUpdate({} as socketIo.Socket, roomName);
+        }
       }
 
       console.log(
@@ -416,11 +1501,16 @@ export class RoomController {
     }
   }
 
-  // Subscribe to Redis for room state updates
+  // Subscribe to Redis for room state updates (once per room)
   async subscribeToRoomUpdates(roomName: string): Promise<void> {
-    const { subscribeToGameState, subscribeToRoomMetadata } = await import(
-      "../redis"
-    );
+    if (this.subscribedRooms.has(roomName)) return;
+    this.subscribedRooms.add(roomName);
+
+    const {
+      subscribeToGameState,
+      subscribeToPaddleInput,
+      subscribeToRoomMetadata,
+    } = await import("../redis");
 
     // Subscribe to game state updates
     await subscribeToGameState(roomName, (data) => {
@@ -431,15 +1521,29 @@ export class RoomController {
     await subscribeToRoomMetadata(roomName, (data) => {
       this.updateRoomMetadata(roomName, data);
     });
+
+    // Inputs of players connected elsewhere, for when we run the match
+    await subscribeToPaddleInput(roomName, (forwarded) => {
+      try {
+        this.roomService.applyForwardedPaddleInput(roomName, forwarded);
+      } catch (error: any) {
+        console.error("Dropped forwarded paddle input:", error.message);
+      }
+    });
   }
 
   // Unsubscribe from Redis room updates
   async unsubscribeFromRoomUpdates(roomName: string): Promise<void> {
-    const { unsubscribeFromGameState, unsubscribeFromRoomMetadata } =
-      await import("../redis");
+    const {
+      unsubscribeFromGameState,
+      unsubscribeFromPaddleInput,
+      unsubscribeFromRoomMetadata,
+    } = await import("../redis");
 
+    this.subscribedRooms.delete(roomName);
     await unsubscribeFromGameState(roomName);
     await unsubscribeFromRoomMetadata(roomName);
+    await unsubscribeFromPaddleInput(roomName);
   }
 
   // Create room from metadata (used for primary server election)
@@ -447,7 +1551,7 @@ export class RoomController {
     console.log(`🏗️ Creating room ${roomName} from metadata:`, {
       hostName: metadata.hostName,
       hostId: metadata.hostId,
-      password: metadata.password ? "***" : "none",
+      isPrivate: !!metadata.passwordHash,
     });
 
     // Use RoomService to create the room with original host information
@@ -0,0 +1,206 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  BALL_RADIUS,
+  FIELD_HEIGHT,
+  FIELD_WIDTH,
+  PADDLE_MARGIN,
+  PADDLE_WIDTH,
+  PhysicsState,
+  TICK_DT,
+  createInitialState,
+  getWinningSide,
+  serveBall,
+  step,
+} from "./physics";
+import { DEFAULT_MATCH_RULES, MatchRules } from "./rules";
+
+const LEFT_FACE = PADDLE_MARGIN + PADDLE_WIDTH + BALL_RADIUS;
+const RIGHT_FACE = FIELD_WIDTH - PADDLE_MARGIN - PADDLE_WIDTH - BALL_RADIUS;
+
+// Both paddles centered, ball placed by the test
+const stateWithBall = (ball: PhysicsState["ball"]): PhysicsState => {
+  const paddle = (FIELD_HEIGHT - DEFAULT_MATCH_RULES.paddleHeight) / 2;
+  return {
+    tick: 0,
+    rngState: 1,
+    rules: DEFAULT_MATCH_RULES,
+    ball,
+    paddles: { player1: paddle, player2: paddle },
+    scores: { player1: 0, player2: 0 },
+    rally: 0,
+  };
+};
+
+describe("serveBall", () => {
+  it("serves from the center towards the given side", () => {
+    for (const towards of ["player1", "player2"] as const) {
+      const { ball } = serveBall(42, towards, 500);
+      assert.equal(ball.x, FIELD_WIDTH / 2);
+      assert.equal(ball.y, FIELD_HEIGHT / 2);
+      assert.equal(Math.sign(ball.vx), towards === "player1" ? -1 : 1);
+    }
+  });
+
+  it("keeps the serve speed and a 30°-60° angle", () => {
+    for (let seed = 0; seed < 50; seed++) {
+      const { ball } = serveBall(seed, "player2", 500);
+      const angle = Math.atan2(Math.abs(ball.vy), Math.abs(ball.vx));
+      assert.ok(Math.abs(Math.hypot(ball.vx, ball.vy) - 500) < 1e-9);
+      assert.ok(angle >= Math.PI / 6 - 1e-9 && angle <= Math.PI / 3 + 1e-9);
+    }
+  });
+
+  it("is deterministic for a given rng state", () => {
+    assert.deepEqual(
+      serveBall(7, "player1", 500),
+      serveBall(7, "player1", 500)
+    );
+    assert.notEqual(serveBall(7, "player1", 500).rngState, 7);
+  });
+});
+
+describe("step", () => {
+  it("advances the tick and moves the ball by one tick of velocity", () => {
+    const state = stateWithBall({ x: 400, y: 300, vx: 240, vy: -120 });
+    const next = step(state);
+    assert.equal(next.tick, 1);
+    assert.equal(next.ball.x, 400 + 240 * TICK_DT);
+    assert.equal(next.ball.y, 300 - 120 * TICK_DT);
+  });
+
+  it("does not mutate the state it is given", () => {
+    const state = stateWithBall({ x: 400, y: 300, vx: 240, vy: -120 });
+    const copy = JSON.parse(JSON.stringify(state));
+    step(state, { player1: { direction: 1 } });
+    assert.deepEqual(state, copy);
+  });
+
+  it("gives the same result for the same state and inputs", () => {
+    let a = createInitialState(1234, DEFAULT_MATCH_RULES);
+    let b = createInitialState(1234, DEFAULT_MATCH_RULES);
+    for (let tick = 0; tick < 2000; tick++) {
+      const inputs = { player1: { target: a.ball.y - 50 } };
+      a = step(a, inputs);
+      b = step(b, inputs);
+    }
+    assert.deepEqual(a, b);
+  });
+
+  it("bounces off the top and bottom walls", () => {
+    const top = step(
+      stateWithBall({ x: 400, y: BALL_RADIUS + 1, vx: 0, vy: -600 })
+    );
+    assert.equal(top.ball.y, BALL_RADIUS);
+    assert.equal(top.ball.vy, 600);
+
+    const bottom = step(
+      stateWithBall({
+        x: 400,
+        y: FIELD_HEIGHT - BALL_RADIUS - 1,
+        vx: 0,
+        vy: 600,
+      })
+    );
+    assert.equal(bottom.ball.y, FIELD_HEIGHT - BALL_RADIUS);
+    assert.equal(bottom.ball.vy, -600);
+  });
+
+  it("bounces off the face of the left paddle", () => {
+    const next = step(
+      stateWithBall({ x: LEFT_FACE + 1, y: 300, vx: -600, vy: 0 })
+    );
+    assert.equal(next.ball.vx, 600);
+    assert.equal(next.ball.lastTouched, "player1");
+    assert.equal(next.rally, 1);
+  });
+
+  it("bounces off the face of the right paddle", () => {
+    const next = step(
+      stateWithBall({ x: RIGHT_FACE - 1, y: 300, vx: 600, vy: 0 })
+    );
+    assert.equal(next.ball.vx, -600);
+    assert.equal(next.ball.lastTouched, "player2");
+    assert.equal(next.rally, 1);
+  });
+
+  it("misses a paddle that is not in the way", () => {
+    const state = stateWithBall({ x: LEFT_FACE + 1, y: 300, vx: -600, vy: 0 });
+    state.paddles.player1 = 0;
+    const next = step(state);
+    assert.equal(next.ball.vx, -600);
+    assert.equal(next.rally, 0);
+  });
+
+  it("does not bounce a ball that is already behind the paddle face", () => {
+    // Missed the paddle, then the paddle moved in front of it
+    const left = step(
+      stateWithBall({ x: LEFT_FACE - 5, y: 300, vx: -600, vy: 0 })
+    );
+    assert.equal(left.ball.vx, -600);
+    assert.equal(left.rally, 0);
+
+    const right = step(
+      stateWithBall({ x: RIGHT_FACE + 5, y: 300, vx: 600, vy: 0 })
+    );
+    assert.equal(right.ball.vx, 600);
+    assert.equal(right.rally, 0);
+  });
+
+  it("scores and serves towards the player who conceded", () => {
+    const left = step(stateWithBall({ x: 2, y: 50, vx: -600, vy: 0 }));
+    assert.deepEqual(left.scores, { player1: 0, player2: 1 });
+    assert.equal(left.ball.x, FIELD_WIDTH / 2);
+    assert.ok(left.ball.vx < 0);
+    assert.equal(left.rally, 0);
+
+    const right = step(
+      stateWithBall({ x: FIELD_WIDTH - 2, y: 50, vx: 600, vy: 0 })
+    );
+    assert.deepEqual(right.scores, { player1: 1, player2: 0 });
+    assert.ok(right.ball.vx > 0);
+  });
+});
+
+describe("getWinningSide", () => {
+  const rules = (winByTwo: boolean): MatchRules => ({
+    ...DEFAULT_MATCH_RULES,
+    targetScore: 5,
+    winByTwo,
+  });
+
+  it("declares nobody before the target score", () => {
+    assert.equal(
+      getWinningSide({ player1: 4, player2: 3 }, rules(false)),
+      null
+    );
+  });
+
+  it("declares the first side to reach the target score", () => {
+    assert.equal(
+      getWinningSide({ player1: 5, player2: 4 }, rules(false)),
+      "player1"
+    );
+    assert.equal(
+      getWinningSide({ player1: 2, player2: 5 }, rules(false)),
+      "player2"
+    );
+  });
+
+  it("requires a two point lead with win-by-two", () => {
+    assert.equal(getWinningSide({ player1: 5, player2: 4 }, rules(true)), null);
+    assert.equal(getWinningSide({ player1: 6, player2: 5 }, rules(true)), null);
+    assert.equal(
+      getWinningSide({ player1: 7, player2: 5 }, rules(true)),
+      "player1"
+    );
+    assert.equal(
+      getWinningSide({ player1: 9, player2: 11 }, rules(true)),
+      "player2"
+    );
+    assert.equal(
+      getWinningSide({ player1: 5, player2: 3 }, rules(true)),
+      "player1"
+    );
+  });
+});
@@ -0,0 +1,251 @@
+import type { MatchRules } from "./rules";
+
+// Deterministic Pong physics.
+//
+// Every function in this module is pure: no wall clock, no Math.random().
+// Randomness comes from a seeded PRNG whose state travels inside the physics
+// state, so any server (or a replay) holding the same state and the same
+// inputs computes exactly the same next tick.
+
+// Fixed simulation rate. The game loop only decides how many ticks are due;
+// each tick always advances the world by TICK_DT seconds.
+export const TICK_RATE = 120;
+export const TICK_DT = 1 / TICK_RATE;
+
+// Field geometry (matches the 800x600 canvas in the frontend)
+export const FIELD_WIDTH = 800;
+export const FIELD_HEIGHT = 600;
+export const BALL_RADIUS = 10;
+export const PADDLE_WIDTH = 10;
+export const PADDLE_MARGIN = 10; // Gap between the side wall and the paddle
+
+// Fastest a paddle may move, whatever the client asks for (6 px per tick)
+export const MAX_PADDLE_SPEED = 720; // Pixels per second
+
+export type Side = "player1" | "player2";
+
+export interface BallState {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  lastTouched?: Side;
+}
+
+export interface PhysicsState {
+  tick: number;
+  rngState: number;
+  rules: MatchRules;
+  ball: BallState;
+  paddles: { player1: number; player2: number };
+  scores: { player1: number; player2: number };
+  rally: number; // Paddle hits since the last serve
+}
+
+export type PaddleDirection = -1 | 0 | 1;
+
+// What a player is asking their paddle to do for one tick. Either move in a
+// direction (-1 up, 1 down) or towards a target Y (top edge, in pixels); a
+// target takes precedence.
+export interface PaddleInput {
+  direction?: PaddleDirection;
+  target?: number;
+}
+
+export interface PaddleInputs {
+  player1?: PaddleInput;
+  player2?: PaddleInput;
+}
+
+// mulberry32: tiny 32-bit PRNG. Returns a float in [0, 1) and the next state.
+export const nextRandom = (rngState: number): [number, number] => {
+  const nextState = (rngState + 0x6d2b79f5) >>> 0;
+  let t = nextState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const value = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  return [value, nextState];
+};
+
+// Seeds are the only non-deterministic input; they are picked once per match
+export const createSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(Math.max(value, min), max);
+
+export const clampPaddle = (y: number, paddleHeight: number): number =>
+  clamp(y, 0, FIELD_HEIGHT - paddleHeight);
+
+// Move a paddle for one tick, never faster than MAX_PADDLE_SPEED
+export const movePaddle = (
+  y: number,
+  input: PaddleInput | undefined,
+  paddleHeight: number
+): number => {
+  if (!input) return y;
+
+  const maxStep = MAX_PADDLE_SPEED * TICK_DT;
+  const delta =
+    input.target === undefined
+      ? (input.direction ?? 0) * maxStep
+      : clamp(clampPaddle(input.target, paddleHeight) - y, -maxStep, maxStep);
+
+  return clampPaddle(y + delta, paddleHeight);
+};
+
+// Place the ball at the center moving towards `towards` at 30°-60° from the
+// horizontal, either up or down.
+export const serveBall = (
+  rngState: number,
+  towards: Side,
+  speed: number
+): { ball: BallState; rngState: number } => {
+  const [angleRoll, afterAngle] = nextRandom(rngState);
+  const [verticalRoll, afterVertical] = nextRandom(afterAngle);
+
+  const angle = Math.PI / 6 + angleRoll * (Math.PI / 6);
+  const horizontal = towards === "player1" ? -1 : 1;
+  const vertical = verticalRoll < 0.5 ? -1 : 1;
+
+  return {
+    ball: {
+      x: FIELD_WIDTH / 2,
+      y: FIELD_HEIGHT / 2,
+      vx: horizontal * Math.cos(angle) * speed,
+      vy: vertical * Math.sin(angle) * speed,
+    },
+    rngState: afterVertical,
+  };
+};
+
+export const createInitialState = (
+  seed: number,
+  rules: MatchRules
+): PhysicsState => {
+  const [sideRoll, afterSide] = nextRandom(seed >>> 0);
+  const { ball, rngState } = serveBall(
+    afterSide,
+    sideRoll < 0.5 ? "player1" : "player2",
+    rules.ballSpeed
+  );
+  const centeredPaddle = (FIELD_HEIGHT - rules.paddleHeight) / 2;
+
+  return {
+    tick: 0,
+    rngState,
+    rules,
+    ball,
+    paddles: { player1: centeredPaddle, player2: centeredPaddle },
+    scores: { player1: 0, player2: 0 },
+    rally: 0,
+  };
+};
+
+// Advance the world by exactly one tick
+export const step = (
+  state: PhysicsState,
+  inputs: PaddleInputs = {}
+): PhysicsState => {
+  const { rules } = state;
+  let rngState = state.rngState;
+  const paddles = {
+    player1: movePaddle(
+      state.paddles.player1,
+      inputs.player1,
+      rules.paddleHeight
+    ),
+    player2: movePaddle(
+      state.paddles.player2,
+      inputs.player2,
+      rules.paddleHeight
+    ),
+  };
+  const scores = { ...state.scores };
+  let rally = state.rally;
+  let ball: BallState = {
+    ...state.ball,
+    x: state.ball.x + state.ball.vx * TICK_DT,
+    y: state.ball.y + state.ball.vy * TICK_DT,
+  };
+
+  // Top/bottom walls: reflect and keep the ball inside the field so it can
+  // never get stuck flipping direction every tick
+  if (ball.y <= BALL_RADIUS && ball.vy < 0) {
+    ball.y = BALL_RADIUS;
+    ball.vy = -ball.vy;
+  } else if (ball.y >= FIELD_HEIGHT - BALL_RADIUS && ball.vy > 0) {
+    ball.y = FIELD_HEIGHT - BALL_RADIUS;
+    ball.vy = -ball.vy;
+  }
+
+  // Paddles: only bounce while the ball is travelling towards the paddle and
+  // reaches its face on this tick. A ball already past the face has missed
+  // and must not bounce off the back of the paddle.
+  const leftFace = PADDLE_MARGIN + PADDLE_WIDTH + BALL_RADIUS;
+  const rightFace = FIELD_WIDTH - PADDLE_MARGIN - PADDLE_WIDTH - BALL_RADIUS;
+
+  if (
+    ball.vx < 0 &&
+    ball.x <= leftFace &&
+    state.ball.x > leftFace &&
+    ball.y >= paddles.player1 &&
+    ball.y <= paddles.player1 + rules.paddleHeight
+  ) {
+    ball.vx = -ball.vx;
+    ball.lastTouched = "player1";
+    rally++;
+  } else if (
+    ball.vx > 0 &&
+    ball.x >= rightFace &&
+    state.ball.x < rightFace &&
+    ball.y >= paddles.player2 &&
+    ball.y <= paddles.player2 + rules.paddleHeight
+  ) {
+    ball.vx = -ball.vx;
+    ball.lastTouched = "player2";
+    rally++;
+    // Slight variation on vy for variety
+    const [roll, nextState] = nextRandom(rngState);
+    rngState = nextState;
+    ball.vy += (roll - 0.5) * 2;
+  }
+
+  // Scoring: serve towards the player who conceded the point
+  if (ball.x < 0) {
+    scores.player2++;
+    rally = 0;
+    ({ ball, rngState } = serveBall(rngState, "player1", rules.ballSpeed));
+  } else if (ball.x > FIELD_WIDTH) {
+    scores.player1++;
+    rally = 0;
+    ({ ball, rngState } = serveBall(rngState, "player2", rules.ballSpeed));
+  }
+
+  return {
+    tick: state.tick + 1,
+    rngState,
+    rules,
+    ball,
+    paddles,
+    scores,
+    rally,
+  };
+};
+
+// A side wins once it reaches the target score (and, with win-by-two, leads
+// by at least two points)
+export const getWinningSide = (
+  scores: PhysicsState["scores"],
+  rules: MatchRules
+): Side | null => {
+  const lead = scores.player1 - scores.player2;
+  const requiredLead = rules.winByTwo ? 2 : 1;
+
+  if (scores.player1 >= rules.targetScore && lead >= requiredLead) {
+    return "player1";
+  }
+  if (scores.player2 >= rules.targetScore && -lead >= requiredLead) {
+    return "player2";
+  }
+  return null;
+};
@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  PaddleInputs,
+  PhysicsState,
+  createInitialState,
+  getWinningSide,
+  step,
+} from "./physics";
+import { MatchRecorder, ReplayPoint, playRecording } from "./replay";
+import { DEFAULT_MATCH_RULES, MatchRules } from "./rules";
+
+const RULES: MatchRules = { ...DEFAULT_MATCH_RULES, targetScore: 3 };
+const SEED = 2024;
+
+// Player 1 follows the ball, a little late; player 2 sweeps up and down,
+// changing direction every 90 ticks
+const inputsAt = (state: PhysicsState): PaddleInputs => ({
+  player1: { target: Math.round(state.ball.y / 40) * 40 },
+  player2: { direction: Math.floor(state.tick / 90) % 2 === 0 ? 1 : -1 },
+});
+
+// A whole match, played through the recorder like a room does
+const recordMatch = () => {
+  let state = createInitialState(SEED, RULES);
+  const recorder = new MatchRecorder(state, SEED);
+  const points: ReplayPoint[] = [];
+
+  while (!getWinningSide(state.scores, RULES) && state.tick < 100000) {
+    const inputs = inputsAt(state);
+    recorder.recordInputs(state.tick, inputs);
+    const previous = state;
+    state = step(state, inputs);
+    recorder.recordTick(previous, state);
+
+    if (state.scores.player1 !== previous.scores.player1) {
+      points.push({
+        tick: state.tick,
+        scorer: "player1",
+        scores: state.scores,
+      });
+    } else if (state.scores.player2 !== previous.scores.player2) {
+      points.push({
+        tick: state.tick,
+        scorer: "player2",
+        scores: state.scores,
+      });
+    }
+  }
+
+  return { recording: recorder.finish(state), points, finalState: state };
+};
+
+describe("MatchRecorder", () => {
+  it("records only the ticks where the inputs change", () => {
+    const { recording, finalState } = recordMatch();
+    assert.ok(recording.inputs.length > 1);
+    assert.ok(recording.inputs.length < finalState.tick / 2);
+    for (let i = 1; i < recording.inputs.length; i++) {
+      assert.notDeepEqual(
+        recording.inputs[i].inputs,
+        recording.inputs[i - 1].inputs
+      );
+    }
+  });
+
+  it("keeps a keyframe per point and one at the end", () => {
+    const { recording, points, finalState } = recordMatch();
+    assert.ok(getWinningSide(finalState.scores, RULES));
+    assert.equal(recording.seed, SEED);
+    assert.equal(recording.endTick, finalState.tick);
+    assert.deepEqual(
+      recording.keyframes.map((keyframe) => keyframe.tick),
+      points.map((point) => point.tick)
+    );
+    assert.equal(recording.keyframes.at(-1)!.tick, finalState.tick);
+  });
+});
+
+describe("playRecording", () => {
+  it("reproduces every keyframe, point and the end of the match", () => {
+    const { recording, points, finalState } = recordMatch();
+    const playback = playRecording(recording);
+
+    assert.equal(playback.divergedAtTick, null);
+    assert.deepEqual(playback.points, points);
+    assert.equal(playback.startTick, 0);
+    assert.equal(playback.endTick, finalState.tick);
+    assert.equal(playback.frames.at(-1)![0], finalState.tick);
+    assert.deepEqual(playback.rules, RULES);
+  });
+
+  it("reports the first keyframe the physics no longer reproduces", () => {
+    const { recording } = recordMatch();
+    const altered = recording.keyframes[1];
+    altered.scores = { player1: 99, player2: 99 };
+
+    assert.equal(playRecording(recording).divergedAtTick, altered.tick);
+  });
+});
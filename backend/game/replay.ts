@@ -0,0 +1,221 @@
+import {
+  PaddleInput,
+  PaddleInputs,
+  PhysicsState,
+  Side,
+  TICK_RATE,
+  step,
+} from "./physics";
+import type { MatchRules } from "./rules";
+
+// Match replays. Physics is deterministic, so a match is fully described by
+// its starting state (seed included) and the paddle inputs of every tick.
+// Replaying them through step() gives back every frame, and doubles as a
+// physics regression check: the recording keeps the state after each point,
+// which a replay with the current physics has to reproduce exactly.
+
+// Frames per second sent to the replay viewer (it blends between them)
+export const REPLAY_FRAME_RATE = 30;
+
+// Inputs applied from `tick` on, until the next entry. Only changes are
+// recorded: holding a key for a second is one entry, not 120.
+export interface RecordedInputs {
+  tick: number;
+  inputs: PaddleInputs;
+}
+
+export interface MatchRecording {
+  seed: number | null; // Null when recorded from a checkpoint after a failover
+  initialState: PhysicsState;
+  inputs: RecordedInputs[];
+  // State after every point and at the end of the match
+  keyframes: PhysicsState[];
+  endTick: number;
+}
+
+// [tick, ballX, ballY, paddle1, paddle2, score1, score2, lastTouched,
+// rally], with lastTouched 0 (nobody), 1 (player1) or 2 (player2). Tuples
+// keep a few minutes of match small enough to send in one message.
+export type ReplayFrame = [
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number
+];
+
+export interface ReplayPoint {
+  tick: number; // Tick the point was scored on
+  scorer: Side;
+  scores: { player1: number; player2: number };
+}
+
+export interface ReplayPlayback {
+  rules: MatchRules;
+  tickRate: number;
+  frameRate: number;
+  startTick: number;
+  endTick: number;
+  frames: ReplayFrame[];
+  points: ReplayPoint[];
+  // First keyframe the current physics did not reproduce, if any
+  divergedAtTick: number | null;
+}
+
+// Only the fields step() works with, always in the same key order so two
+// states can be compared by their JSON
+const physicsOf = (state: PhysicsState): PhysicsState => ({
+  tick: state.tick,
+  rngState: state.rngState,
+  rules: { ...state.rules },
+  ball: { ...state.ball },
+  paddles: { ...state.paddles },
+  scores: { ...state.scores },
+  rally: state.rally,
+});
+
+const sameInput = (a?: PaddleInput, b?: PaddleInput): boolean =>
+  a?.direction === b?.direction && a?.target === b?.target;
+
+const copyInputs = (inputs: PaddleInputs): PaddleInputs => {
+  const copy: PaddleInputs = {};
+  if (inputs.player1) copy.player1 = { ...inputs.player1 };
+  if (inputs.player2) copy.player2 = { ...inputs.player2 };
+  return copy;
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const toFrame = (state: PhysicsState): ReplayFrame => [
+  state.tick,
+  round(state.ball.x),
+  round(state.ball.y),
+  round(state.paddles.player1),
+  round(state.paddles.player2),
+  state.scores.player1,
+  state.scores.player2,
+  state.ball.lastTouched === "player1"
+    ? 1
+    : state.ball.lastTouched === "player2"
+      ? 2
+      : 0,
+  state.rally,
+];
+
+// Records one match as it is played, from the state it starts (or is
+// resumed) at
+export class MatchRecorder {
+  private readonly seed: number | null;
+  private readonly initialState: PhysicsState;
+  private readonly inputs: RecordedInputs[];
+  private readonly keyframes: PhysicsState[];
+  private lastInputs: PaddleInputs;
+
+  constructor(state: PhysicsState, seed: number | null) {
+    this.seed = seed;
+    this.initialState = physicsOf(state);
+    this.inputs = [];
+    this.keyframes = [];
+    this.lastInputs = {};
+  }
+
+  // Inputs about to be applied to the tick after `tick`
+  recordInputs(tick: number, inputs: PaddleInputs): void {
+    if (
+      sameInput(inputs.player1, this.lastInputs.player1) &&
+      sameInput(inputs.player2, this.lastInputs.player2)
+    ) {
+      return;
+    }
+    this.lastInputs = copyInputs(inputs);
+    this.inputs.push({ tick, inputs: this.lastInputs });
+  }
+
+  // State after a tick; points scored are kept as keyframes
+  recordTick(previous: PhysicsState, state: PhysicsState): void {
+    if (
+      state.scores.player1 !== previous.scores.player1 ||
+      state.scores.player2 !== previous.scores.player2
+    ) {
+      this.keyframes.push(physicsOf(state));
+    }
+  }
+
+  finish(state: PhysicsState): MatchRecording {
+    const last = this.keyframes[this.keyframes.length - 1];
+    if (last?.tick !== state.tick) {
+      this.keyframes.push(physicsOf(state));
+    }
+    return {
+      seed: this.seed,
+      initialState: this.initialState,
+      inputs: this.inputs,
+      keyframes: this.keyframes,
+      endTick: state.tick,
+    };
+  }
+}
+
+// Replay a recording with the current physics into frames for the viewer
+export const playRecording = (recording: MatchRecording): ReplayPlayback => {
+  const frameInterval = TICK_RATE / REPLAY_FRAME_RATE;
+  const keyframes = new Map(
+    recording.keyframes.map((keyframe) => [keyframe.tick, keyframe])
+  );
+  const frames: ReplayFrame[] = [toFrame(recording.initialState)];
+  const points: ReplayPoint[] = [];
+  let divergedAtTick: number | null = null;
+  let state = physicsOf(recording.initialState);
+  let inputs: PaddleInputs = {};
+  let nextInput = 0;
+
+  while (state.tick < recording.endTick) {
+    while (
+      nextInput < recording.inputs.length &&
+      recording.inputs[nextInput].tick <= state.tick
+    ) {
+      inputs = recording.inputs[nextInput].inputs;
+      nextInput++;
+    }
+
+    const previous = state;
+    state = step(state, inputs);
+
+    if (state.scores.player1 !== previous.scores.player1) {
+      points.push({ tick: state.tick, scorer: "player1", scores: state.scores });
+    } else if (state.scores.player2 !== previous.scores.player2) {
+      points.push({ tick: state.tick, scorer: "player2", scores: state.scores });
+    }
+
+    const keyframe = keyframes.get(state.tick);
+    if (
+      keyframe &&
+      divergedAtTick === null &&
+      JSON.stringify(physicsOf(state)) !== JSON.stringify(physicsOf(keyframe))
+    ) {
+      divergedAtTick = state.tick;
+    }
+
+    if (
+      (state.tick - recording.initialState.tick) % frameInterval === 0 ||
+      state.tick === recording.endTick
+    ) {
+      frames.push(toFrame(state));
+    }
+  }
+
+  return {
+    rules: recording.initialState.rules,
+    tickRate: TICK_RATE,
+    frameRate: REPLAY_FRAME_RATE,
+    startTick: recording.initialState.tick,
+    endTick: recording.endTick,
+    frames,
+    points,
+    divergedAtTick,
+  };
+};
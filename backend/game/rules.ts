@@ -0,0 +1,77 @@
+import { FIELD_HEIGHT } from "./physics";
+
+// Per-match rules chosen by the host in the lobby. They are stored on the
+// game state so physics, the winner check and the renderer all agree.
+export interface MatchRules {
+  targetScore: number; // Points needed to win
+  ballSpeed: number; // Serve speed in pixels per second
+  paddleHeight: number; // Paddle height in pixels
+  winByTwo: boolean; // Require a two point lead to win
+}
+
+export const DEFAULT_MATCH_RULES: MatchRules = {
+  targetScore: 5,
+  ballSpeed: 500,
+  paddleHeight: 100,
+  winByTwo: false,
+};
+
+export const MATCH_RULE_LIMITS = {
+  targetScore: { min: 1, max: 21 },
+  ballSpeed: { min: 200, max: 1200 },
+  paddleHeight: { min: 40, max: FIELD_HEIGHT / 2 },
+};
+
+const validateRange = (
+  value: unknown,
+  { min, max }: { min: number; max: number },
+  label: string
+): number => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error(`${label} debe ser un número.`);
+  }
+  if (value < min || value > max) {
+    throw new Error(`${label} debe estar entre ${min} y ${max}.`);
+  }
+  return value;
+};
+
+// Fill missing fields with defaults and reject anything out of range
+export const validateMatchRules = (rules?: Partial<MatchRules>): MatchRules => {
+  if (rules === undefined || rules === null) {
+    return { ...DEFAULT_MATCH_RULES };
+  }
+  if (typeof rules !== "object") {
+    throw new Error("Reglas de partida inválidas.");
+  }
+
+  const merged = { ...DEFAULT_MATCH_RULES, ...rules };
+
+  const targetScore = validateRange(
+    merged.targetScore,
+    MATCH_RULE_LIMITS.targetScore,
+    "El puntaje objetivo"
+  );
+  if (!Number.isInteger(targetScore)) {
+    throw new Error("El puntaje objetivo debe ser un número entero.");
+  }
+
+  if (typeof merged.winByTwo !== "boolean") {
+    throw new Error("La opción de ganar por dos debe ser verdadero o falso.");
+  }
+
+  return {
+    targetScore,
+    ballSpeed: validateRange(
+      merged.ballSpeed,
+      MATCH_RULE_LIMITS.ballSpeed,
+      "La velocidad de la pelota"
+    ),
+    paddleHeight: validateRange(
+      merged.paddleHeight,
+      MATCH_RULE_LIMITS.paddleHeight,
+      "El tamaño de la paleta"
+    ),
+    winByTwo: merged.winByTwo,
+  };
+};
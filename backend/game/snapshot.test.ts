@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { GameState, Room } from "../models/Room";
+import { PhysicsState, createInitialState, step } from "./physics";
+import { DEFAULT_MATCH_RULES } from "./rules";
+import { GameSnapshot, createSnapshot, encodeSnapshot } from "./snapshot";
+
+// A match state with player 1 holding "up" and acking every input
+const gameStateOf = (physics: PhysicsState): GameState => ({
+  ...physics,
+  players: [],
+  winner: null,
+  timestamp: 1760000000000 + physics.tick,
+  lastProcessedInput: {
+    player1: { sequence: physics.tick, ticks: 1 },
+    player2: { sequence: 0, ticks: 0 },
+  },
+  startedAt: 1760000000000,
+  longestRally: 0,
+  totalHits: 0,
+  endReason: null,
+});
+
+// Snapshots of the first `ticks` ticks of a match
+const playSnapshots = (ticks: number): GameSnapshot[] => {
+  let physics = createInitialState(31337, DEFAULT_MATCH_RULES);
+  const snapshots = [createSnapshot(gameStateOf(physics))];
+  for (let tick = 0; tick < ticks; tick++) {
+    physics = step(physics, { player1: { direction: -1 } });
+    snapshots.push(createSnapshot(gameStateOf(physics)));
+  }
+  return snapshots;
+};
+
+// How the client rebuilds a snapshot from a delta
+// (frontend/src/snapshotCodec.ts)
+const applyChanges = (base: any, changes: any): any => {
+  if (typeof base !== "object" || base === null) return changes;
+  if (typeof changes !== "object" || changes === null) return changes;
+  const result = { ...base };
+  for (const key of Object.keys(changes)) {
+    result[key] = applyChanges(base[key], changes[key]);
+  }
+  return result;
+};
+
+describe("encodeSnapshot", () => {
+  it("sends every field without a baseline", () => {
+    const [snapshot] = playSnapshots(0);
+    const { tick, timestamp, baseTick, changes } = encodeSnapshot(snapshot);
+    assert.equal(baseTick, null);
+    assert.deepEqual({ tick, timestamp, ...changes }, snapshot);
+  });
+
+  it("encodes deltas that apply back to the full snapshot", () => {
+    const room = new Room("sala", null, "host", "Anfitrión");
+    const snapshots = playSnapshots(600);
+
+    for (const [index, snapshot] of snapshots.entries()) {
+      room.recordSnapshot(snapshot);
+      // The client acks every tenth snapshot it receives
+      const base = room.getAckedSnapshot("socket");
+      if (base) {
+        const message = encodeSnapshot(snapshot, base);
+        assert.equal(message.baseTick, base.tick);
+        const { tick, timestamp } = message;
+        assert.deepEqual(
+          { ...applyChanges(base, message.changes), tick, timestamp },
+          snapshot
+        );
+      }
+      if (index % 10 === 0) room.acknowledgeSnapshot("socket", snapshot.tick);
+    }
+  });
+
+  it("encodes an unchanged state as an empty delta", () => {
+    const [snapshot] = playSnapshots(0);
+    const later = { ...structuredClone(snapshot), tick: 1, timestamp: 2 };
+    const message = encodeSnapshot(later, snapshot);
+    assert.deepEqual(message.changes, {});
+    assert.equal(message.baseTick, snapshot.tick);
+    assert.equal(message.tick, 1);
+  });
+
+  it("sends only what changed since the baseline", () => {
+    const [base, next] = playSnapshots(1);
+    const { changes } = encodeSnapshot(next, base);
+    assert.equal(changes.scores, undefined);
+    assert.equal(changes.lastProcessedInput?.player2, undefined);
+    assert.deepEqual(changes.lastProcessedInput?.player1, { sequence: 1 });
+    assert.ok(changes.ball?.x !== undefined);
+  });
+});
+
+describe("Room snapshot acks", () => {
+  it("ignores acks of unknown or older snapshots", () => {
+    const room = new Room("sala", null, "host", "Anfitrión");
+    const snapshots = playSnapshots(3);
+    snapshots.forEach((snapshot) => room.recordSnapshot(snapshot));
+
+    room.acknowledgeSnapshot("socket", 99);
+    assert.equal(room.getAckedSnapshot("socket"), undefined);
+
+    room.acknowledgeSnapshot("socket", 2);
+    room.acknowledgeSnapshot("socket", 1);
+    assert.equal(room.getAckedSnapshot("socket"), snapshots[2]);
+  });
+});
@@ -0,0 +1,93 @@
+import type { GameState, InputAck } from "../models/Room";
+import type { Side } from "./physics";
+
+// Compact per-tick view of a match: only what changes during play. Player
+// info and rules travel once, with game-started.
+export interface GameSnapshot {
+  tick: number;
+  timestamp: number;
+  ball: {
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+    lastTouched: Side | null;
+  };
+  paddles: { player1: number; player2: number };
+  scores: { player1: number; player2: number };
+  rally: number;
+  winner: string | null;
+  lastProcessedInput: { player1: InputAck; player2: InputAck };
+}
+
+type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+// What goes over the wire as game-update: the fields that changed since the
+// snapshot at `baseTick`, or the whole snapshot when `baseTick` is null
+export interface SnapshotMessage {
+  tick: number;
+  baseTick: number | null;
+  timestamp: number;
+  changes: DeepPartial<Omit<GameSnapshot, "tick" | "timestamp">>;
+}
+
+export const createSnapshot = (state: GameState): GameSnapshot => ({
+  tick: state.tick,
+  timestamp: state.timestamp ?? Date.now(),
+  ball: {
+    x: state.ball.x,
+    y: state.ball.y,
+    vx: state.ball.vx,
+    vy: state.ball.vy,
+    lastTouched: state.ball.lastTouched ?? null,
+  },
+  paddles: { ...state.paddles },
+  scores: { ...state.scores },
+  rally: state.rally,
+  winner: state.winner,
+  lastProcessedInput: {
+    player1: { ...state.lastProcessedInput.player1 },
+    player2: { ...state.lastProcessedInput.player2 },
+  },
+});
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+// Fields of `current` that differ from `base`, recursing into nested objects.
+// Snapshots never drop keys, so additions and changes are all there is.
+const diffValue = (base: unknown, current: unknown): unknown => {
+  if (isPlainObject(base) && isPlainObject(current)) {
+    const changes: Record<string, unknown> = {};
+    for (const key of Object.keys(current)) {
+      const change = diffValue(base[key], current[key]);
+      if (change !== undefined) {
+        changes[key] = change;
+      }
+    }
+    return Object.keys(changes).length > 0 ? changes : undefined;
+  }
+  return Object.is(base, current) ? undefined : current;
+};
+
+export const encodeSnapshot = (
+  snapshot: GameSnapshot,
+  base?: GameSnapshot
+): SnapshotMessage => {
+  const { tick, timestamp, ...fields } = snapshot;
+
+  if (!base) {
+    return { tick, timestamp, baseTick: null, changes: fields };
+  }
+
+  const { tick: _baseTick, timestamp: _baseTimestamp, ...baseFields } = base;
+  const changes = diffValue(baseFields, fields) ?? {};
+  return {
+    tick,
+    timestamp,
+    baseTick: base.tick,
+    changes: changes as SnapshotMessage["changes"],
+  };
+};
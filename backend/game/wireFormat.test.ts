@@ -0,0 +1,154 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { GameSnapshot, encodeSnapshot } from "./snapshot";
+import { decodePaddleInputBinary, encodeSnapshotBinary } from "./wireFormat";
+
+// Reads a binary game-update back, following the layout in wireFormat.ts
+// the way the client's decoder does (frontend/src/wireFormat.ts)
+const decodeGameUpdate = (buffer: Buffer) => {
+  const mask = buffer.readUInt16LE(16);
+  let offset = 18;
+  const next = (bytes: number) => {
+    const at = offset;
+    offset += bytes;
+    return at;
+  };
+  const has = (bit: number) => (mask & (1 << bit)) !== 0;
+
+  const changes: Record<string, any> = {};
+  const set = (group: string, key: string, value: unknown) => {
+    changes[group] = { ...changes[group], [key]: value };
+  };
+  const readAck = () => ({
+    sequence: buffer.readUInt32LE(next(4)),
+    ticks: buffer.readUInt8(next(1)),
+  });
+
+  if (has(0)) set("ball", "x", buffer.readFloatLE(next(4)));
+  if (has(1)) set("ball", "y", buffer.readFloatLE(next(4)));
+  if (has(2)) set("ball", "vx", buffer.readFloatLE(next(4)));
+  if (has(3)) set("ball", "vy", buffer.readFloatLE(next(4)));
+  if (has(4)) {
+    const side = buffer.readUInt8(next(1));
+    set("ball", "lastTouched", [null, "player1", "player2"][side]);
+  }
+  if (has(5)) set("paddles", "player1", buffer.readFloatLE(next(4)));
+  if (has(6)) set("paddles", "player2", buffer.readFloatLE(next(4)));
+  if (has(7)) set("scores", "player1", buffer.readUInt16LE(next(2)));
+  if (has(8)) set("scores", "player2", buffer.readUInt16LE(next(2)));
+  if (has(9)) {
+    const length = buffer.readUInt8(next(1));
+    const start = next(length);
+    changes.winner =
+      length > 0 ? buffer.toString("utf8", start, start + length) : null;
+  }
+  if (has(10)) set("lastProcessedInput", "player1", readAck());
+  if (has(11)) set("lastProcessedInput", "player2", readAck());
+  if (has(12)) changes.rally = buffer.readUInt16LE(next(2));
+
+  assert.equal(offset, buffer.length, "every byte is accounted for");
+  const baseTick = buffer.readInt32LE(12);
+  return {
+    tick: buffer.readUInt32LE(0),
+    timestamp: buffer.readDoubleLE(4),
+    baseTick: baseTick < 0 ? null : baseTick,
+    changes,
+  };
+};
+
+// Values a 32-bit float holds exactly, so they survive the round trip
+const snapshotAt = (tick: number): GameSnapshot => ({
+  tick,
+  timestamp: 1760000000000 + tick,
+  ball: { x: 400.5, y: 300.25, vx: -240, vy: 120.75, lastTouched: "player2" },
+  paddles: { player1: 250, player2: 262.5 },
+  scores: { player1: 3, player2: 4 },
+  rally: 7,
+  winner: null,
+  lastProcessedInput: {
+    player1: { sequence: 120, ticks: 2 },
+    player2: { sequence: 98, ticks: 0 },
+  },
+});
+
+const roundTrip = (snapshot: GameSnapshot, base?: GameSnapshot) => {
+  const message = encodeSnapshot(snapshot, base);
+  return {
+    message,
+    decoded: decodeGameUpdate(encodeSnapshotBinary(message, snapshot)),
+  };
+};
+
+describe("encodeSnapshotBinary", () => {
+  it("round-trips a full snapshot", () => {
+    const { message, decoded } = roundTrip(snapshotAt(500));
+    assert.deepEqual(decoded, message);
+    assert.equal(decoded.baseTick, null);
+  });
+
+  it("sends only the fields in a delta", () => {
+    const base = snapshotAt(500);
+    const current = snapshotAt(501);
+    current.ball.x = 402.5;
+    current.paddles.player2 = 270;
+    current.scores.player1 = 4;
+
+    const buffer = encodeSnapshotBinary(encodeSnapshot(current, base), current);
+    assert.equal(buffer.length, 18 + 4 + 4 + 2);
+    assert.deepEqual(decodeGameUpdate(buffer), {
+      tick: 501,
+      timestamp: current.timestamp,
+      baseTick: 500,
+      changes: {
+        ball: { x: 402.5 },
+        paddles: { player2: 270 },
+        scores: { player1: 4 },
+      },
+    });
+  });
+
+  it("encodes the winner as UTF-8, and its absence as no winner", () => {
+    const base = snapshotAt(500);
+    const won = { ...snapshotAt(501), winner: "Iñaki 🏓 Müller" };
+    assert.equal(roundTrip(won, base).decoded.changes.winner, won.winner);
+
+    const reset = snapshotAt(502);
+    assert.equal(roundTrip(reset, won).decoded.changes.winner, null);
+  });
+
+  it("writes a changed input ack whole", () => {
+    const base = snapshotAt(500);
+    const current = snapshotAt(501);
+    current.lastProcessedInput.player1.ticks = 3;
+    current.lastProcessedInput.player2 = { sequence: 99, ticks: 1 };
+
+    const { decoded } = roundTrip(current, base);
+    assert.deepEqual(decoded.changes, {
+      lastProcessedInput: {
+        player1: { sequence: 120, ticks: 3 },
+        player2: { sequence: 99, ticks: 1 },
+      },
+    });
+  });
+});
+
+describe("decodePaddleInputBinary", () => {
+  it("reads the fields its flags mark as present", () => {
+    const buffer = Buffer.alloc(11);
+    buffer.writeUInt32LE(4321, 0);
+    buffer.writeUInt8(0b101, 4); // direction and ticks
+    buffer.writeInt8(-1, 5);
+    buffer.writeUInt8(3, 6);
+
+    assert.deepEqual(decodePaddleInputBinary(buffer), {
+      sequence: 4321,
+      direction: -1,
+      ticks: 3,
+      target: undefined,
+    });
+  });
+
+  it("rejects buffers of another size", () => {
+    assert.equal(decodePaddleInputBinary(Buffer.alloc(18)), null);
+  });
+});
@@ -0,0 +1,139 @@
+import type { GameSnapshot, SnapshotMessage } from "./snapshot";
+import type { Side } from "./physics";
+
+// Optional binary encoding for the two high-frequency messages, game-update
+// and paddle-input. Clients ask for it in the Socket.IO handshake
+// (`auth.wireFormat`); everything else stays JSON.
+//
+// game-update layout (little endian):
+//   u32 tick | f64 timestamp | i32 baseTick (-1 = full snapshot) | u16 mask
+// followed, in bit order, by the fields whose bit is set in `mask`.
+
+export type WireFormat = "json" | "binary";
+
+const BINARY_ENABLED = process.env.BINARY_WIRE_FORMAT !== "false";
+
+const HEADER_BYTES = 18;
+const MAX_WINNER_BYTES = 255;
+
+const BALL_X = 1 << 0;
+const BALL_Y = 1 << 1;
+const BALL_VX = 1 << 2;
+const BALL_VY = 1 << 3;
+const BALL_LAST_TOUCHED = 1 << 4;
+const PADDLE_1 = 1 << 5;
+const PADDLE_2 = 1 << 6;
+const SCORE_1 = 1 << 7;
+const SCORE_2 = 1 << 8;
+const WINNER = 1 << 9;
+const INPUT_ACK_1 = 1 << 10;
+const INPUT_ACK_2 = 1 << 11;
+const RALLY = 1 << 12;
+
+// paddle-input layout: u32 sequence | u8 flags | i8 direction | u8 ticks |
+// f32 target. Flags say which of the optional fields are present.
+const PADDLE_INPUT_BYTES = 11;
+const HAS_DIRECTION = 1 << 0;
+const HAS_TARGET = 1 << 1;
+const HAS_TICKS = 1 << 2;
+
+export const negotiateWireFormat = (requested: unknown): WireFormat =>
+  BINARY_ENABLED && requested === "binary" ? "binary" : "json";
+
+const encodeSide = (side: Side | null): number =>
+  side === "player1" ? 1 : side === "player2" ? 2 : 0;
+
+// Encode a delta message. The message decides which fields are sent; their
+// values come from the full snapshot, so partially changed groups (an input
+// ack whose ticks moved but sequence didn't) are written whole.
+export const encodeSnapshotBinary = (
+  message: SnapshotMessage,
+  snapshot: GameSnapshot
+): Buffer => {
+  const { changes } = message;
+  const winner = Buffer.from(snapshot.winner ?? "", "utf8").subarray(
+    0,
+    MAX_WINNER_BYTES
+  );
+
+  let mask = 0;
+  let size = HEADER_BYTES;
+  const include = (present: unknown, bit: number, bytes: number) => {
+    if (present === undefined) return;
+    mask |= bit;
+    size += bytes;
+  };
+
+  include(changes.ball?.x, BALL_X, 4);
+  include(changes.ball?.y, BALL_Y, 4);
+  include(changes.ball?.vx, BALL_VX, 4);
+  include(changes.ball?.vy, BALL_VY, 4);
+  include(changes.ball?.lastTouched, BALL_LAST_TOUCHED, 1);
+  include(changes.paddles?.player1, PADDLE_1, 4);
+  include(changes.paddles?.player2, PADDLE_2, 4);
+  include(changes.scores?.player1, SCORE_1, 2);
+  include(changes.scores?.player2, SCORE_2, 2);
+  include(changes.winner, WINNER, 1 + winner.length);
+  include(changes.lastProcessedInput?.player1, INPUT_ACK_1, 5);
+  include(changes.lastProcessedInput?.player2, INPUT_ACK_2, 5);
+  include(changes.rally, RALLY, 2);
+
+  const buffer = Buffer.alloc(size);
+  let offset = 0;
+  offset = buffer.writeUInt32LE(message.tick, offset);
+  offset = buffer.writeDoubleLE(message.timestamp, offset);
+  offset = buffer.writeInt32LE(message.baseTick ?? -1, offset);
+  offset = buffer.writeUInt16LE(mask, offset);
+
+  const { ball, paddles, scores, lastProcessedInput } = snapshot;
+  if (mask & BALL_X) offset = buffer.writeFloatLE(ball.x, offset);
+  if (mask & BALL_Y) offset = buffer.writeFloatLE(ball.y, offset);
+  if (mask & BALL_VX) offset = buffer.writeFloatLE(ball.vx, offset);
+  if (mask & BALL_VY) offset = buffer.writeFloatLE(ball.vy, offset);
+  if (mask & BALL_LAST_TOUCHED) {
+    offset = buffer.writeUInt8(encodeSide(ball.lastTouched), offset);
+  }
+  if (mask & PADDLE_1) offset = buffer.writeFloatLE(paddles.player1, offset);
+  if (mask & PADDLE_2) offset = buffer.writeFloatLE(paddles.player2, offset);
+  if (mask & SCORE_1) offset = buffer.writeUInt16LE(scores.player1, offset);
+  if (mask & SCORE_2) offset = buffer.writeUInt16LE(scores.player2, offset);
+  if (mask & WINNER) {
+    // Zero length means no winner; player ids are never empty
+    offset = buffer.writeUInt8(winner.length, offset);
+    offset += winner.copy(buffer, offset);
+  }
+  for (const [bit, ack] of [
+    [INPUT_ACK_1, lastProcessedInput.player1],
+    [INPUT_ACK_2, lastProcessedInput.player2],
+  ] as const) {
+    if (mask & bit) {
+      offset = buffer.writeUInt32LE(ack.sequence, offset);
+      offset = buffer.writeUInt8(ack.ticks, offset);
+    }
+  }
+  if (mask & RALLY) {
+    offset = buffer.writeUInt16LE(Math.min(snapshot.rally, 0xffff), offset);
+  }
+
+  return buffer;
+};
+
+// Returns null for buffers that are not a paddle-input
+export const decodePaddleInputBinary = (
+  buffer: Buffer
+): {
+  direction?: number;
+  target?: number;
+  ticks?: number;
+  sequence: number;
+} | null => {
+  if (buffer.length !== PADDLE_INPUT_BYTES) return null;
+
+  const flags = buffer.readUInt8(4);
+  return {
+    sequence: buffer.readUInt32LE(0),
+    direction: flags & HAS_DIRECTION ? buffer.readInt8(5) : undefined,
+    ticks: flags & HAS_TICKS ? buffer.readUInt8(6) : undefined,
+    target: flags & HAS_TARGET ? buffer.readFloatLE(7) : undefined,
+  };
+};
@@ -0,0 +1,103 @@
+import { MatchRules } from "../game/rules";
+
+// "King of the court" rotation. Players are kept by name (names are unique
+// and survive a reconnect to another server, socket ids do not). The first
+// two names are on court; after each game the winner stays first, the
+// loser goes to the back and the next in line challenges.
+export class CourtQueue {
+  public names: string[];
+  public matchInProgress: boolean;
+  // When the next game may start (a short break after each result)
+  public nextMatchAt: number | null;
+  // Rules the host chose when starting the rotation, used for every game
+  public rules: MatchRules | null;
+
+  constructor(names: string[] = []) {
+    this.names = Array.from(new Set(names));
+    this.matchInProgress = false;
+    this.nextMatchAt = null;
+    this.rules = null;
+  }
+
+  // Rotation as published in a room's metadata by the server running it
+  static fromJSON(data: any): CourtQueue {
+    const queue = new CourtQueue(data.names ?? []);
+    queue.matchInProgress = !!data.matchInProgress;
+    queue.nextMatchAt = data.nextMatchAt ?? null;
+    queue.rules = data.rules ?? null;
+    return queue;
+  }
+
+  add(name: string): void {
+    if (!this.names.includes(name)) {
+      this.names.push(name);
+    }
+  }
+
+  remove(name: string): void {
+    this.names = this.names.filter((queued) => queued !== name);
+  }
+
+  // Host reorders the queue. Must be the same names; the two on court stay
+  // put while their game is running.
+  reorder(names: string[]): void {
+    const sameNames =
+      names.length === this.names.length &&
+      new Set(names).size === names.length &&
+      names.every((name) => this.names.includes(name));
+    if (!sameNames) {
+      throw new Error("La cola debe contener los mismos jugadores");
+    }
+
+    if (
+      this.matchInProgress &&
+      (names[0] !== this.names[0] || names[1] !== this.names[1])
+    ) {
+      throw new Error("No se puede mover a quienes están jugando");
+    }
+
+    this.names = [...names];
+  }
+
+  // Next two names on court among those currently connected. Anyone
+  // skipped keeps their place for when they are back.
+  getNextCourt(available: (name: string) => boolean): [string, string] | null {
+    const present = this.names.filter(available);
+    return present.length >= 2 ? [present[0], present[1]] : null;
+  }
+
+  startMatch(court: [string, string], rules: MatchRules): void {
+    this.names = [...court, ...this.names.filter((n) => !court.includes(n))];
+    this.matchInProgress = true;
+    this.nextMatchAt = null;
+    this.rules = rules;
+  }
+
+  recordResult(winner: string, loser: string, breakMs: number): void {
+    const waiting = this.names.filter(
+      (name) => name !== winner && name !== loser
+    );
+    this.names = [
+      ...(this.names.includes(winner) ? [winner] : []),
+      ...waiting,
+      ...(this.names.includes(loser) ? [loser] : []),
+    ];
+    this.matchInProgress = false;
+    this.nextMatchAt = Date.now() + breakMs;
+  }
+
+  // Stop rotating (e.g. not enough players left)
+  pause(): void {
+    this.matchInProgress = false;
+    this.nextMatchAt = null;
+  }
+
+  toJSON(): any {
+    return {
+      names: this.names,
+      matchInProgress: this.matchInProgress,
+      nextMatchAt: this.nextMatchAt,
+      rules: this.rules,
+    };
+  }
+}
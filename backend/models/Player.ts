@@ -1,16 +1,38 @@
+// Spectators watch matches but can never be picked to play
+export type PlayerRole = "player" | "spectator";
+
 export class Player {
   public id: string;
   public name: string;
   public room: string;
   public isHost: boolean;
   public isActive: boolean;
+  public role: PlayerRole;
+  // Session this player joined with (see SessionService); never sent out
+  public sessionId: string | null;
+  // Registered account playing as this player, if they were logged in
+  public accountId: string | null;
+  // While disconnected: when they lose their place if they don't come back
+  public reconnectDeadline: number | null;
+  // When they entered the room; the longest present takes over as host
+  public joinedAt: number;
 
-  constructor(id: string, name: string, room: string) {
+  constructor(
+    id: string,
+    name: string,
+    room: string,
+    role: PlayerRole = "player"
+  ) {
     this.id = id;
     this.name = name;
     this.room = room;
     this.isHost = false;
     this.isActive = true;
+    this.role = role;
+    this.sessionId = null;
+    this.accountId = null;
+    this.reconnectDeadline = null;
+    this.joinedAt = Date.now();
   }
 
   setHost(isHost: boolean): void {
@@ -21,13 +43,26 @@ export class Player {
     this.isActive = active;
   }
 
+  markDisconnected(deadline: number): void {
+    this.isActive = false;
+    this.reconnectDeadline = deadline;
+  }
+
+  isSpectator(): boolean {
+    return this.role === "spectator";
+  }
+
   toJSON(): any {
     return {
       id: this.id,
       name: this.name,
       room: this.room,
       isHost: this.isHost,
-      isActive: this.isActive
+      isActive: this.isActive,
+      role: this.role,
+      reconnectDeadline: this.reconnectDeadline,
+      joinedAt: this.joinedAt,
+      accountId: this.accountId
     };
   }
 }
\ No newline at end of file
@@ -1,23 +1,116 @@
 import { Player } from "./Player";
+import { Tournament } from "./Tournament";
+import { CourtQueue } from "./CourtQueue";
+import {
+  PaddleInput,
+  PaddleInputs,
+  PhysicsState,
+  Side,
+  TICK_RATE,
+  createInitialState,
+  createSeed,
+  getWinningSide,
+  step,
+} from "../game/physics";
+import { MatchRules } from "../game/rules";
+import type { GameSnapshot } from "../game/snapshot";
+import { MatchRecorder, MatchRecording } from "../game/replay";
 
-interface GameState {
+// Most physics ticks a single paddle input may cover (one client frame)
+export const MAX_INPUT_TICKS = 8;
+
+// Longest backlog of input ticks kept per paddle (about 250ms). Anything
+// beyond this is dropped so a client cannot bank movement.
+export const MAX_QUEUED_INPUT_TICKS = 30;
+
+// How far the server has got through a player's inputs: the sequence number
+// of the input being applied and how many of its ticks have run so far
+export interface InputAck {
+  sequence: number;
+  ticks: number;
+}
+
+// How a match was decided: on points, or by a player leaving (forfeit) or
+// losing their connection for good (disconnect)
+export type MatchEndReason = "win" | "forfeit" | "disconnect";
+
+export interface GameState extends PhysicsState {
   players: Player[];
-  scores: { player1: number; player2: number };
-  ball: {
-    x: number;
-    y: number;
-    vx: number;
-    vy: number;
-    lastTouched?: "player1" | "player2";
-  };
-  paddles: { player1: number; player2: number };
   winner: string | null;
   timestamp?: number;
+  lastProcessedInput: { player1: InputAck; player2: InputAck };
+  // Kept in the state so they survive a checkpoint
+  startedAt: number;
+  longestRally: number;
+  totalHits: number; // Paddle hits over the whole match
+  endReason: MatchEndReason | null;
+}
+
+// A decided match, as it goes into the match history
+export interface FinishedMatch {
+  room: string;
+  players: {
+    name: string;
+    accountId: string | null;
+    side: Side;
+    score: number;
+  }[];
+  winner: string; // Player name
+  endReason: MatchEndReason;
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  longestRally: number;
+  totalHits: number;
+  // Null for matches taken over after a failover before they were recorded
+  recording: MatchRecording | null;
 }
 
+interface QueuedPaddleInput {
+  input: PaddleInput;
+  sequence: number;
+  ticks: number;
+  appliedTicks: number;
+}
+
+const SIDES: Side[] = ["player1", "player2"];
+
+// game-update send rate bounds (Hz); physics always runs at TICK_RATE
+export const MIN_SNAPSHOT_RATE = 30;
+export const MAX_SNAPSHOT_RATE = TICK_RATE;
+export const DEFAULT_SNAPSHOT_RATE = Math.min(
+  Math.max(
+    parseInt(process.env.SNAPSHOT_RATE || "60") || 60,
+    MIN_SNAPSHOT_RATE
+  ),
+  MAX_SNAPSHOT_RATE
+);
+
+// How long sent snapshots are kept as delta baselines (2 seconds)
+const SNAPSHOT_HISTORY_TICKS = TICK_RATE * 2;
+
+// Countdown before a paused match resumes once both players are back
+export const RESUME_COUNTDOWN_MS = 3000;
+
+// A match on hold until its players have (re)connected here: it was taken
+// over from another server, or one of them dropped. Once nobody is missing
+// it resumes at `resumeAt`.
+export interface MatchPause {
+  waitingFor: string[]; // Player names
+  resumeAt: number | null;
+  // Players who dropped mid-match forfeit at this time if not back
+  forfeitAt: number | null;
+}
+
+// host-pick: the host selects every matchup. king-of-the-court: the winner
+// stays on and the next player in the queue challenges them.
+export type RoomMode = "host-pick" | "king-of-the-court";
+
+export const ROOM_MODES: RoomMode[] = ["host-pick", "king-of-the-court"];
+
 export class Room {
   public name: string;
-  public password: string | null;
+  public passwordHash: string | null; // Salted hash; see passwords.ts
   public hostName: string;
   public hostId: string; // Keep for backward compatibility during migration
   public players: Map<string, Player>;
@@ -25,10 +118,43 @@ export class Room {
   public gameState: GameState | null;
   public isGameActive: boolean;
   public selectedPlayers: string[];
+  public snapshotRate: number; // game-update sends per second
+  public tournament: Tournament | null;
+  public mode: RoomMode;
+  public courtQueue: CourtQueue | null; // Only in king-of-the-court mode
+  public pause: MatchPause | null;
+  // Who the host picked to take over if they leave (player name)
+  public successorName: string | null;
+  // Locked rooms take no new players; reconnecting ones still get back in
+  public isLocked: boolean;
+  // Banned for the room's lifetime, by name and by session
+  public bannedNames: string[];
+  public bannedSessionIds: string[];
+  // Created by matchmaking for one match: no host, nobody new gets in
+  public isMatchmade: boolean;
+  // Pending inputs per paddle; each physics tick consumes one input tick
+  private inputQueues: {
+    player1: QueuedPaddleInput[];
+    player2: QueuedPaddleInput[];
+  };
+  private lastInputSequence: { player1: number; player2: number };
+  // Snapshots sent to clients, by tick, and the last one each socket acked
+  private snapshotHistory: Map<number, GameSnapshot>;
+  private snapshotAcks: Map<string, number>;
+  private lastSnapshotTick: number | null;
+  // Matches decided here and not yet saved to the match history
+  private finishedMatches: FinishedMatch[];
+  // Replay of the match being played
+  private recorder: MatchRecorder | null;
 
-  constructor(name: string, password: string, hostId: string, hostName: string) {
+  constructor(
+    name: string,
+    passwordHash: string | null,
+    hostId: string,
+    hostName: string
+  ) {
     this.name = name;
-    this.password = password;
+    this.passwordHash = passwordHash;
     this.hostId = hostId;
     this.hostName = hostName; // New primary host identification
     this.players = new Map();
@@ -36,6 +162,89 @@ export class Room {
     this.gameState = null;
     this.isGameActive = false;
     this.selectedPlayers = [];
+    this.inputQueues = { player1: [], player2: [] };
+    this.lastInputSequence = { player1: -1, player2: -1 };
+    this.snapshotRate = DEFAULT_SNAPSHOT_RATE;
+    this.snapshotHistory = new Map();
+    this.snapshotAcks = new Map();
+    this.lastSnapshotTick = null;
+    this.finishedMatches = [];
+    this.recorder = null;
+    this.tournament = null;
+    this.mode = "host-pick";
+    this.courtQueue = null;
+    this.pause = null;
+    this.successorName = null;
+    this.isLocked = false;
+    this.bannedNames = [];
+    this.bannedSessionIds = [];
+    this.isMatchmade = false;
+  }
+
+  // Matchmaking rooms have no host to start, moderate or hand them over,
+  // and stay locked: only their two players (with their session) get in
+  makeMatchmade(): void {
+    this.isMatchmade = true;
+    this.isLocked = true;
+    this.hostName = "";
+    this.hostId = "";
+    for (const player of [...this.players.values(), ...this.guests.values()]) {
+      player.setHost(false);
+    }
+  }
+
+  ban(player: Player): void {
+    if (!this.bannedNames.includes(player.name)) {
+      this.bannedNames.push(player.name);
+    }
+    if (player.sessionId && !this.bannedSessionIds.includes(player.sessionId)) {
+      this.bannedSessionIds.push(player.sessionId);
+    }
+  }
+
+  // Lock and bans as published in the room's metadata by another server
+  applyModeration(metadata: {
+    isLocked?: boolean;
+    bannedNames?: string[];
+    bannedSessionIds?: string[];
+  }): void {
+    this.isLocked = !!metadata.isLocked;
+    this.bannedNames = [...(metadata.bannedNames ?? [])];
+    this.bannedSessionIds = [...(metadata.bannedSessionIds ?? [])];
+  }
+
+  // Tournament as published in the room's metadata by its owner
+  applyTournament(data: any): void {
+    this.tournament = data ? Tournament.fromJSON(data) : null;
+  }
+
+  // Mode and king-of-the-court rotation as published in the room's
+  // metadata by its owner
+  applyCourtQueue(mode: RoomMode, data: any): void {
+    this.setMode(mode);
+    if (this.courtQueue && data) {
+      this.courtQueue = CourtQueue.fromJSON(data);
+    }
+  }
+
+  // A tournament or king-of-the-court rotation still has matches to
+  // schedule: the room's owner keeps it (and its lease) between matches
+  hasUpcomingMatch(): boolean {
+    return (
+      (!!this.tournament && !this.tournament.isFinished()) ||
+      (!!this.courtQueue && this.courtQueue.nextMatchAt !== null)
+    );
+  }
+
+  isPrivate(): boolean {
+    return this.passwordHash !== null;
+  }
+
+  isBanned(playerName: string, sessionId: string | null): boolean {
+    return (
+      this.bannedNames.includes(playerName) ||
+      (!!sessionId && this.bannedSessionIds.includes(sessionId))
+    );
   }
 
   addPlayer(playerId: string, player: Player): void {
@@ -43,118 +252,431 @@ export class Room {
   }
 
   removePlayer(playerId: string): void {
+    const player = this.players.get(playerId) ?? this.guests.get(playerId);
+    if (player) {
+      this.courtQueue?.remove(player.name);
+      this.waitForPlayer(player);
+    }
     this.players.delete(playerId);
     this.guests.delete(playerId);
+    this.snapshotAcks.delete(playerId);
+    this.tournament?.withdraw(playerId);
   }
 
   addGuest(playerId: string, player: Player): void {
     this.guests.set(playerId, player);
   }
 
-  startGame(selectedPlayers: Player[]): void {
-    // Constant high speed with random direction towards opponents (compensating for deltaTime)
-    // Angles around 45° towards players: 30°-60° and 120°-150°
-    const isTowardsPlayer1 = Math.random() < 0.5;
-    let angle;
-    if (isTowardsPlayer1) {
-      angle = Math.PI / 6 + Math.random() * (Math.PI / 6); // 30° to 60°
-    } else {
-      angle = Math.PI * 2 / 3 + Math.random() * (Math.PI / 6); // 120° to 150°
-    }
-    const speed = 500; // High speed (compensates for 60 FPS deltaTime ~0.0167)
-    const vx = Math.cos(angle) * speed;
-    const vy = Math.sin(angle) * speed;
+  // Switch mode; the queue (king-of-the-court) starts with the given names
+  setMode(mode: RoomMode, queueNames: string[] = []): void {
+    this.mode = mode;
+    this.courtQueue =
+      mode === "king-of-the-court" ? new CourtQueue(queueNames) : null;
+  }
 
+  startGame(selectedPlayers: Player[], rules: MatchRules): void {
+    const seed = createSeed();
     this.gameState = {
+      ...createInitialState(seed, rules),
       players: selectedPlayers,
-      scores: { player1: 0, player2: 0 },
-      ball: { x: 400, y: 300, vx, vy },
-      paddles: { player1: 250, player2: 250 },
       winner: null,
       timestamp: Date.now(),
+      lastProcessedInput: {
+        player1: { sequence: 0, ticks: 0 },
+        player2: { sequence: 0, ticks: 0 },
+      },
+      startedAt: Date.now(),
+      longestRally: 0,
+      totalHits: 0,
+      endReason: null,
+    };
+    this.recorder = new MatchRecorder(this.gameState, seed);
+    this.inputQueues = { player1: [], player2: [] };
+    this.lastInputSequence = { player1: -1, player2: -1 };
+    this.resetSnapshots();
+    this.isGameActive = true;
+    this.pause = null;
+  }
+
+  // Pick up a match from a checkpoint written by another server. Its replay
+  // starts at the checkpoint: the recording so far was on the old server.
+  restoreCheckpoint(gameState: GameState): void {
+    this.gameState = {
+      ...gameState,
+      players: this.toMatchPlayers(gameState.players),
+    };
+    this.recorder = new MatchRecorder(this.gameState, null);
+    this.pauseForReconnect();
+  }
+
+  // Follow the match its owner runs on another server, from the owner's
+  // checkpoint (snapshots leave out the players and rules)
+  followRemoteMatch(gameState: GameState): void {
+    this.gameState = {
+      ...gameState,
+      players: this.toMatchPlayers(gameState.players),
     };
+    this.resetSnapshots();
     this.isGameActive = true;
   }
 
-  updateGame(ball: any, paddles: any, scores: any): void {
-    if (this.gameState) {
-      this.gameState.ball = ball;
-      this.gameState.paddles = paddles;
-      this.gameState.scores = scores;
-      this.gameState.timestamp = Date.now();
+  // The owner's latest snapshot of the match followed here. Only what
+  // physics changes is taken, so the players bound here (rejoins) and the
+  // pause stay as they are.
+  applyRemoteSnapshot(snapshot: GameSnapshot): void {
+    if (!this.gameState) return;
+
+    this.gameState = {
+      ...this.gameState,
+      tick: snapshot.tick,
+      timestamp: snapshot.timestamp,
+      ball: {
+        x: snapshot.ball.x,
+        y: snapshot.ball.y,
+        vx: snapshot.ball.vx,
+        vy: snapshot.ball.vy,
+        lastTouched: snapshot.ball.lastTouched ?? undefined,
+      },
+      paddles: { ...snapshot.paddles },
+      scores: { ...snapshot.scores },
+      rally: snapshot.rally,
+      winner: snapshot.winner,
+      lastProcessedInput: {
+        player1: { ...snapshot.lastProcessedInput.player1 },
+        player2: { ...snapshot.lastProcessedInput.player2 },
+      },
+    };
+    this.isGameActive = true;
+  }
+
+  // Players of a match as received from another server: whoever is
+  // connected here under that name, or a detached copy until they are
+  private toMatchPlayers(players: Player[]): Player[] {
+    const present = [...this.players.values(), ...this.guests.values()];
+    return players.map((player) => {
+      const local = present.find((other) => other.name === player.name);
+      if (local) return local;
+
+      const copy = new Player(player.id, player.name, this.name);
+      copy.accountId = player.accountId ?? null;
+      return copy;
+    });
+  }
+
+  // Hold the match taken over from another server until both players are
+  // connected here. Players already in the room are bound right away.
+  pauseForReconnect(): void {
+    if (!this.gameState) return;
+
+    this.inputQueues = { player1: [], player2: [] };
+    this.lastInputSequence = { player1: -1, player2: -1 };
+    this.resetSnapshots();
+    this.isGameActive = true;
+    this.pause = {
+      waitingFor: this.gameState.players.map((player) => player.name),
+      resumeAt: null,
+      forfeitAt: null,
+    };
+
+    for (const player of [...this.players.values(), ...this.guests.values()]) {
+      this.rejoinMatch(player);
+    }
+  }
+
+  // A player of the paused match is back, under a new socket id. Returns
+  // true if they were one of the players being waited for.
+  rejoinMatch(player: Player): boolean {
+    if (!this.pause || !this.gameState || player.isSpectator()) return false;
+
+    const index = this.gameState.players.findIndex(
+      (matchPlayer) => matchPlayer.name === player.name
+    );
+    if (index === -1) return false;
+
+    this.gameState.players[index] = player;
+    this.pause.waitingFor = this.pause.waitingFor.filter(
+      (name) => name !== player.name
+    );
+    if (this.pause.waitingFor.length === 0) {
+      this.pause.resumeAt = Date.now() + RESUME_COUNTDOWN_MS;
+      this.pause.forfeitAt = null;
+    }
+    return true;
+  }
+
+  // A player of the running match dropped: hold the match until they are
+  // back or their reconnection window (until `deadline`) closes
+  pauseForDisconnect(player: Player, deadline: number): boolean {
+    const isInMatch = this.gameState?.players.some(
+      (matchPlayer) => matchPlayer.id === player.id
+    );
+    if (!this.isGameActive || !isInMatch || this.gameState?.winner) {
+      return false;
+    }
+
+    if (!this.pause) {
+      this.pause = { waitingFor: [], resumeAt: null, forfeitAt: null };
+    }
+    this.waitForPlayer(player);
+    this.pause.forfeitAt = Math.min(this.pause.forfeitAt ?? deadline, deadline);
+    return true;
+  }
+
+  // A player of the running match is gone for good: the opponent wins.
+  // Returns true if the match was decided by it.
+  forfeit(playerId: string, reason: MatchEndReason = "forfeit"): boolean {
+    if (!this.isGameActive || !this.gameState || this.gameState.winner) {
+      return false;
+    }
+    const isInMatch = this.gameState.players.some(
+      (matchPlayer) => matchPlayer.id === playerId
+    );
+    const opponent = this.gameState.players.find(
+      (matchPlayer) => matchPlayer.id !== playerId
+    );
+    if (!isInMatch || !opponent) return false;
+
+    this.gameState.winner = opponent.id;
+    this.pause = null;
+    this.finishMatch(reason);
+    return true;
+  }
+
+  // Matches decided since the last call, to be saved once by whoever calls
+  takeFinishedMatches(): FinishedMatch[] {
+    const matches = this.finishedMatches;
+    this.finishedMatches = [];
+    return matches;
+  }
+
+  // Drop a player's old entry when they come back under a new socket id.
+  // The paused match and the court queue find them again by name (see
+  // rejoinMatch); the tournament is rebound with rebindEntrant.
+  forgetPlayer(playerId: string): void {
+    this.players.delete(playerId);
+    this.guests.delete(playerId);
+    this.snapshotAcks.delete(playerId);
+  }
+
+  // Someone playing the paused match left again: stop the countdown
+  private waitForPlayer(player: Player): void {
+    const isInMatch = this.gameState?.players.some(
+      (matchPlayer) => matchPlayer.id === player.id
+    );
+    if (!this.pause || !isInMatch) return;
+
+    if (!this.pause.waitingFor.includes(player.name)) {
+      this.pause.waitingFor.push(player.name);
+    }
+    this.pause.resumeAt = null;
+  }
+
+  // End the pause once its countdown is over. Returns true if it did.
+  resumeIfDue(now: number): boolean {
+    if (this.pause?.resumeAt == null || now < this.pause.resumeAt) {
+      return false;
+    }
+    this.pause = null;
+    return true;
+  }
+
+  // Which paddle a player controls in the current game, if any
+  getPlayerSide(playerId: string): Side | null {
+    if (!this.gameState) return null;
+    if (this.gameState.players[0]?.id === playerId) return "player1";
+    if (this.gameState.players[1]?.id === playerId) return "player2";
+    return null;
+  }
+
+  // Same, for a player who may be connected to another server (names are
+  // unique, socket ids are per server)
+  getPlayerSideByName(playerName: string): Side | null {
+    if (!this.gameState) return null;
+    if (this.gameState.players[0]?.name === playerName) return "player1";
+    if (this.gameState.players[1]?.name === playerName) return "player2";
+    return null;
+  }
+
+  // Queue a paddle input covering `ticks` physics ticks. Inputs that arrive
+  // out of order (older sequence number) or overflow the queue are dropped.
+  queuePaddleInput(
+    side: Side,
+    input: PaddleInput,
+    sequence: number,
+    ticks: number
+  ): boolean {
+    if (this.pause || sequence <= this.lastInputSequence[side]) {
+      return false;
+    }
+    this.lastInputSequence[side] = sequence;
+
+    const queue = this.inputQueues[side];
+    const queuedTicks = queue.reduce(
+      (total, queued) => total + queued.ticks - queued.appliedTicks,
+      0
+    );
+    if (queuedTicks + ticks > MAX_QUEUED_INPUT_TICKS) {
+      return false;
+    }
+
+    queue.push({ input, sequence, ticks, appliedTicks: 0 });
+    return true;
+  }
+
+  // Take this tick's input for each paddle off the queues and record how far
+  // through each player's inputs the server is, for client reconciliation
+  private consumeInputs(): PaddleInputs {
+    const inputs: PaddleInputs = {};
+    if (!this.gameState) return inputs;
+
+    for (const side of SIDES) {
+      const queued = this.inputQueues[side][0];
+      if (!queued) continue;
 
-      // Check for winner
-      if (scores.player1 >= 10 || scores.player2 >= 10) {
-        this.gameState.winner = scores.player1 >= 10 ? "player1" : "player2";
+      inputs[side] = queued.input;
+      queued.appliedTicks++;
+      this.gameState.lastProcessedInput[side] = {
+        sequence: queued.sequence,
+        ticks: queued.appliedTicks,
+      };
+
+      if (queued.appliedTicks >= queued.ticks) {
+        this.inputQueues[side].shift();
       }
     }
+
+    return inputs;
   }
 
-  // Server-side game physics update
-  updateGamePhysics(deltaTime: number): void {
-    if (!this.gameState || !this.isGameActive) return;
-
-    const ball = this.gameState.ball;
-    const paddles = this.gameState.paddles;
-    const scores = this.gameState.scores;
-
-    // Ball movement
-    ball.x += ball.vx * deltaTime;
-    ball.y += ball.vy * deltaTime;
-
-    // Ball collision with top/bottom
-    if (ball.y <= 10 || ball.y >= 590) {
-      ball.vy = -ball.vy;
-    }
-
-    // Ball collision with paddles
-    if (
-      ball.x <= 30 &&
-      ball.y >= paddles.player1 &&
-      ball.y <= paddles.player1 + 100
-    ) {
-      ball.vx = -ball.vx;
-      ball.lastTouched = "player1";
-    } else if (
-      ball.x >= 770 &&
-      ball.y >= paddles.player2 &&
-      ball.y <= paddles.player2 + 100
-    ) {
-      ball.vx = -ball.vx;
-      ball.lastTouched = "player2";
-      // Add slight random variation to vy for variety
-      ball.vy += (Math.random() - 0.5) * 2;
-    }
-
-    // Scoring
-    if (ball.x < 0) {
-      scores.player2++;
-      // Reset ball towards player 1 (left side) - angles around 45°: 30° to 60°
-      const angle = Math.PI / 6 + Math.random() * (Math.PI / 6); // 30° to 60°
-      const speed = 500; // High speed (compensates for 60 FPS deltaTime)
-      ball.x = 400;
-      ball.y = 300;
-      ball.vx = Math.cos(angle) * speed;
-      ball.vy = Math.sin(angle) * speed;
-    } else if (ball.x > 800) {
-      scores.player1++;
-      // Reset ball towards player 2 (right side) - angles around 135°: 120° to 150°
-      const angle = Math.PI * 2 / 3 + Math.random() * (Math.PI / 6); // 120° to 150°
-      const speed = 500; // High speed (compensates for 60 FPS deltaTime)
-      ball.x = 400;
-      ball.y = 300;
-      ball.vx = Math.cos(angle) * speed;
-      ball.vy = Math.sin(angle) * speed;
-    }
-
-    // Check for winner
-    if (scores.player1 >= 5 || scores.player2 >= 5) {
-      this.gameState.winner = scores.player1 >= 5 ? "player1" : "player2";
+  // Server-side game physics update: advances exactly one fixed tick
+  updateGamePhysics(): void {
+    if (!this.gameState || !this.isGameActive || this.pause) return;
+
+    const inputs = this.consumeInputs();
+    const previous = this.gameState;
+    const previousRally = previous.rally;
+    this.recorder?.recordInputs(previous.tick, inputs);
+    this.gameState = {
+      ...previous,
+      ...step(previous, inputs),
+    };
+    this.recorder?.recordTick(previous, this.gameState);
+
+    // Rally only grows by paddle hits and drops to 0 on a point
+    const { rally } = this.gameState;
+    if (rally > previousRally) {
+      this.gameState.totalHits += rally - previousRally;
+      this.gameState.longestRally = Math.max(this.gameState.longestRally, rally);
     }
 
+    this.checkForWinner();
     this.gameState.timestamp = Date.now();
   }
 
+  // Whether a game-update is due: once every TICK_RATE / snapshotRate ticks,
+  // plus right away when the game ends so the final score is never skipped
+  isSnapshotDue(): boolean {
+    if (!this.gameState) return false;
+    if (this.lastSnapshotTick === null) return true;
+
+    const { tick, winner } = this.gameState;
+    if (tick < this.lastSnapshotTick) return true; // State was replaced
+    if (tick === this.lastSnapshotTick) return false;
+
+    const interval = Math.max(1, Math.round(TICK_RATE / this.snapshotRate));
+    return tick - this.lastSnapshotTick >= interval || winner !== null;
+  }
+
+  recordSnapshot(snapshot: GameSnapshot): void {
+    this.lastSnapshotTick = snapshot.tick;
+    this.snapshotHistory.set(snapshot.tick, snapshot);
+
+    for (const tick of this.snapshotHistory.keys()) {
+      const expired = tick < snapshot.tick - SNAPSHOT_HISTORY_TICKS;
+      if (expired || tick > snapshot.tick) {
+        this.snapshotHistory.delete(tick);
+      }
+    }
+  }
+
+  acknowledgeSnapshot(socketId: string, tick: number): void {
+    const current = this.snapshotAcks.get(socketId);
+    const isNewer = current === undefined || tick > current;
+    if (this.snapshotHistory.has(tick) && isNewer) {
+      this.snapshotAcks.set(socketId, tick);
+    }
+  }
+
+  // Baseline to delta-encode against for a socket; undefined means the
+  // socket needs a full snapshot
+  getAckedSnapshot(socketId: string): GameSnapshot | undefined {
+    const tick = this.snapshotAcks.get(socketId);
+    return tick === undefined ? undefined : this.snapshotHistory.get(tick);
+  }
+
+  resetSnapshots(): void {
+    this.snapshotHistory.clear();
+    this.snapshotAcks.clear();
+    this.lastSnapshotTick = null;
+  }
+
+  // Winner is stored as the player's id, using the match rules for this game
+  private checkForWinner(): void {
+    if (!this.gameState) return;
+
+    const winningSide = getWinningSide(
+      this.gameState.scores,
+      this.gameState.rules
+    );
+    if (winningSide) {
+      const winnerIndex = winningSide === "player1" ? 0 : 1;
+      this.gameState.winner =
+        this.gameState.players[winnerIndex]?.id ?? winningSide;
+      this.finishMatch("win");
+    }
+  }
+
+  // Only runs where the match was decided (the physics owner, or the server
+  // the forfeiting player left), so each match is recorded once
+  private finishMatch(reason: MatchEndReason): void {
+    const gameState = this.gameState;
+    if (!gameState?.winner) return;
+
+    const endedAt = Date.now();
+    // Checkpoints from before these stats existed lack them
+    const startedAt = gameState.startedAt ?? gameState.timestamp ?? endedAt;
+    gameState.endReason = reason;
+    this.finishedMatches.push({
+      room: this.name,
+      players: gameState.players.map((player, index) => {
+        const side = SIDES[index];
+        return {
+          name: player.name,
+          accountId: player.accountId ?? null,
+          side,
+          score: gameState.scores[side],
+        };
+      }),
+      winner:
+        gameState.players.find((player) => player.id === gameState.winner)
+          ?.name ?? gameState.winner,
+      endReason: reason,
+      startedAt,
+      endedAt,
+      durationMs: endedAt - startedAt,
+      longestRally: gameState.longestRally ?? 0,
+      totalHits: gameState.totalHits ?? 0,
+      recording: this.recorder?.finish(gameState) ?? null,
+    });
+    this.recorder = null;
+  }
+
+  getSpectatorCount(): number {
+    return Array.from(this.guests.values()).filter((guest) =>
+      guest.isSpectator()
+    ).length;
+  }
+
   toJSON(): any {
     return {
       name: this.name,
@@ -165,6 +687,16 @@ export class Room {
       gameState: this.gameState,
       isGameActive: this.isGameActive,
       selectedPlayers: this.selectedPlayers,
+      snapshotRate: this.snapshotRate,
+      spectatorCount: this.getSpectatorCount(),
+      tournament: this.tournament,
+      mode: this.mode,
+      courtQueue: this.courtQueue,
+      pause: this.pause,
+      successorName: this.successorName,
+      isLocked: this.isLocked,
+      isPrivate: this.isPrivate(),
+      isMatchmade: this.isMatchmade,
     };
   }
 }
@@ -0,0 +1,215 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_MATCH_RULES } from "../game/rules";
+import { Tournament, TournamentFormat } from "./Tournament";
+
+// Entrants s0, s1, ... named P0, P1, ..., in seed order
+const createTournament = (format: TournamentFormat, count: number) =>
+  new Tournament(
+    format,
+    Array.from({ length: count }, (_, index) => ({
+      id: `s${index}`,
+      name: `P${index}`,
+    })),
+    DEFAULT_MATCH_RULES
+  );
+
+// Play the ready match between `winner` and `loser`
+const play = (
+  tournament: Tournament,
+  winner: string,
+  loser: string,
+  score: [number, number] = [5, 3]
+) => {
+  const match = tournament.matches.find(
+    (match) =>
+      match.status === "ready" &&
+      [match.player1, match.player2].includes(winner) &&
+      [match.player1, match.player2].includes(loser)
+  );
+  assert.ok(match, `${winner} and ${loser} have a match to play`);
+  tournament.startMatch(match.id);
+  const [winnerScore, loserScore] = score;
+  tournament.recordResult(
+    winner,
+    match.player1 === winner
+      ? { player1: winnerScore, player2: loserScore }
+      : { player1: loserScore, player2: winnerScore },
+    0
+  );
+};
+
+describe("single elimination", () => {
+  it("gives the byes to the top seeds", () => {
+    const tournament = createTournament("single-elimination", 5);
+    const firstRound = tournament.matches.filter((match) => match.round === 0);
+
+    assert.equal(firstRound.length, 4);
+    assert.deepEqual(
+      firstRound.map((match) => [match.player1, match.player2]),
+      [
+        ["s0", null],
+        ["s3", "s4"],
+        ["s1", null],
+        ["s2", null],
+      ]
+    );
+    assert.deepEqual(
+      firstRound
+        .filter((match) => match.status === "walkover")
+        .map((match) => match.winner),
+      ["s0", "s1", "s2"]
+    );
+    assert.equal(tournament.getNextMatch()?.id, 1);
+  });
+
+  it("moves winners along the bracket and crowns the champion", () => {
+    const tournament = createTournament("single-elimination", 5);
+    play(tournament, "s4", "s3");
+    play(tournament, "s0", "s4");
+    play(tournament, "s2", "s1");
+    assert.equal(tournament.champion, null);
+    play(tournament, "s2", "s0");
+
+    assert.ok(tournament.isFinished());
+    assert.equal(tournament.champion, "s2");
+    assert.equal(tournament.getNextMatch(), undefined);
+  });
+
+  it("gives a walkover to the opponent of a withdrawn player", () => {
+    const tournament = createTournament("single-elimination", 4);
+    tournament.withdraw("s3");
+    const opening = tournament.matches[0];
+    assert.equal(opening.status, "walkover");
+    assert.equal(opening.winner, "s0");
+
+    // The final waits for the other semi-final, then goes without playing
+    tournament.withdraw("s0");
+    const final = tournament.matches[2];
+    assert.equal(final.status, "waiting");
+    play(tournament, "s1", "s2");
+    assert.equal(final.status, "walkover");
+    assert.equal(tournament.champion, "s1");
+  });
+
+  it("ignores withdrawals of players outside the tournament", () => {
+    const tournament = createTournament("single-elimination", 4);
+    tournament.withdraw("spectator");
+    assert.ok(tournament.matches.every((match) => match.status !== "walkover"));
+  });
+});
+
+describe("round robin", () => {
+  it("pairs everyone once with an odd number of entrants", () => {
+    const tournament = createTournament("round-robin", 5);
+    assert.equal(tournament.matches.length, 10);
+
+    const pairs = new Set(
+      tournament.matches.map((match) =>
+        [match.player1, match.player2].sort().join("-")
+      )
+    );
+    assert.equal(pairs.size, 10);
+
+    // One entrant rests each round, nobody plays twice in a round
+    const rounds = new Set(tournament.matches.map((match) => match.round));
+    assert.equal(rounds.size, 5);
+    for (const round of rounds) {
+      const players = tournament.matches
+        .filter((match) => match.round === round)
+        .flatMap((match) => [match.player1, match.player2]);
+      assert.equal(players.length, 4);
+      assert.equal(new Set(players).size, 4);
+    }
+  });
+
+  it("breaks ties in wins by point difference", () => {
+    const tournament = createTournament("round-robin", 3);
+    play(tournament, "s0", "s1", [5, 0]);
+    play(tournament, "s1", "s2", [5, 4]);
+    play(tournament, "s2", "s0", [5, 4]);
+
+    const standings = tournament.getStandings();
+    assert.deepEqual(
+      standings.map((standing) => standing.id),
+      ["s0", "s2", "s1"]
+    );
+    assert.deepEqual(standings[0], {
+      id: "s0",
+      name: "P0",
+      played: 2,
+      wins: 1,
+      losses: 1,
+      pointsFor: 9,
+      pointsAgainst: 5,
+    });
+    assert.equal(tournament.champion, "s0");
+  });
+
+  it("breaks ties in wins and difference by points scored", () => {
+    const tournament = createTournament("round-robin", 3);
+    play(tournament, "s0", "s1", [5, 3]);
+    play(tournament, "s1", "s2", [7, 5]);
+    play(tournament, "s2", "s0", [7, 5]);
+
+    assert.equal(tournament.getStandings()[0].id, "s2");
+    assert.equal(tournament.champion, "s2");
+  });
+
+  it("does not crown a withdrawn leader", () => {
+    const tournament = createTournament("round-robin", 3);
+    play(tournament, "s0", "s1");
+    play(tournament, "s0", "s2");
+    tournament.withdraw("s0");
+    play(tournament, "s1", "s2");
+
+    assert.equal(tournament.getStandings()[0].id, "s0");
+    assert.equal(tournament.champion, "s1");
+  });
+});
+
+describe("rebindEntrant", () => {
+  it("moves slots, results and withdrawal to the new id", () => {
+    const tournament = createTournament("single-elimination", 4);
+    play(tournament, "s0", "s3");
+    tournament.withdraw("s2");
+    tournament.rebindEntrant("P0", "new0");
+    tournament.rebindEntrant("P2", "new2");
+
+    assert.ok(tournament.isEntrant("new0"));
+    assert.ok(!tournament.isEntrant("s0"));
+    assert.equal(tournament.matches[0].player1, "new0");
+    assert.equal(tournament.matches[0].winner, "new0");
+    assert.equal(tournament.matches[2].player1, "new0");
+    assert.ok(
+      tournament
+        .toJSON()
+        .entrants.some(
+          (entrant: any) => entrant.id === "new2" && entrant.withdrawn
+        )
+    );
+
+    play(tournament, "new0", "s1");
+    assert.equal(tournament.champion, "new0");
+  });
+
+  it("leaves the tournament alone for unknown names", () => {
+    const tournament = createTournament("single-elimination", 2);
+    const before = JSON.stringify(tournament.toJSON());
+    tournament.rebindEntrant("nobody", "new");
+    assert.equal(JSON.stringify(tournament.toJSON()), before);
+  });
+});
+
+describe("fromJSON", () => {
+  it("restores a published tournament", () => {
+    const tournament = createTournament("single-elimination", 4);
+    play(tournament, "s0", "s3");
+    tournament.withdraw("s2");
+
+    const restored = Tournament.fromJSON(
+      JSON.parse(JSON.stringify(tournament))
+    );
+    assert.deepEqual(restored.toJSON(), tournament.toJSON());
+  });
+});
@@ -0,0 +1,363 @@
+import { MatchRules } from "../game/rules";
+
+export type TournamentFormat = "single-elimination" | "round-robin";
+
+export const TOURNAMENT_FORMATS: TournamentFormat[] = [
+  "single-elimination",
+  "round-robin",
+];
+
+export interface TournamentEntrant {
+  id: string;
+  name: string;
+}
+
+// waiting: players not known yet (single elimination, earlier round still
+// running). walkover: decided without playing (bye or withdrawn player).
+export type TournamentMatchStatus =
+  | "waiting"
+  | "ready"
+  | "playing"
+  | "finished"
+  | "walkover";
+
+export interface TournamentMatch {
+  id: number;
+  round: number;
+  player1: string | null;
+  player2: string | null;
+  status: TournamentMatchStatus;
+  winner: string | null;
+  scores: { player1: number; player2: number } | null;
+  // Single elimination: where the winner goes next
+  nextMatchId: number | null;
+  nextSlot: "player1" | "player2" | null;
+}
+
+export interface TournamentStanding {
+  id: string;
+  name: string;
+  played: number;
+  wins: number;
+  losses: number;
+  pointsFor: number;
+  pointsAgainst: number;
+}
+
+const isDecided = (match: TournamentMatch): boolean =>
+  match.status === "finished" || match.status === "walkover";
+
+// Seed order for a bracket of `size` slots (a power of two), so that the top
+// seeds only meet late and byes go to the top seeds: 4 -> [0, 3, 1, 2]
+const seedOrder = (size: number): number[] => {
+  let order = [0];
+  while (order.length < size) {
+    const length = order.length * 2;
+    order = order.flatMap((seed) => [seed, length - 1 - seed]);
+  }
+  return order;
+};
+
+export class Tournament {
+  public readonly format: TournamentFormat;
+  public readonly rules: MatchRules;
+  public readonly entrants: TournamentEntrant[];
+  public matches: TournamentMatch[];
+  public currentMatchId: number | null;
+  public champion: string | null;
+  // When the next match may start (a short break after each result)
+  public nextMatchAt: number | null;
+  private readonly withdrawn: Set<string>;
+
+  constructor(
+    format: TournamentFormat,
+    entrants: TournamentEntrant[],
+    rules: MatchRules
+  ) {
+    this.format = format;
+    this.rules = rules;
+    this.entrants = entrants;
+    this.currentMatchId = null;
+    this.champion = null;
+    this.nextMatchAt = Date.now();
+    this.withdrawn = new Set();
+    this.matches =
+      format === "single-elimination"
+        ? this.createEliminationBracket()
+        : this.createRoundRobinSchedule();
+    this.settle();
+  }
+
+  // Tournament as published in a room's metadata by the server running it
+  static fromJSON(data: any): Tournament {
+    const entrants: TournamentEntrant[] = data.entrants.map(
+      (entrant: TournamentEntrant) => ({ id: entrant.id, name: entrant.name })
+    );
+    const tournament = new Tournament(data.format, entrants, data.rules);
+    tournament.matches = data.matches.map((match: TournamentMatch) => ({
+      ...match,
+      scores: match.scores ? { ...match.scores } : null,
+    }));
+    tournament.currentMatchId = data.currentMatchId ?? null;
+    tournament.champion = data.champion ?? null;
+    tournament.nextMatchAt = data.nextMatchAt ?? null;
+    for (const entrant of data.entrants) {
+      if (entrant.withdrawn) tournament.withdrawn.add(entrant.id);
+    }
+    return tournament;
+  }
+
+  private createEliminationBracket(): TournamentMatch[] {
+    const rounds = Math.max(1, Math.ceil(Math.log2(this.entrants.length)));
+    const size = 2 ** rounds;
+    const slots = seedOrder(size).map(
+      (seed) => this.entrants[seed]?.id ?? null
+    );
+
+    const matches: TournamentMatch[] = [];
+    let roundStart = 0;
+    for (let round = 0; round < rounds; round++) {
+      const count = size / 2 ** (round + 1);
+      const nextRoundStart = roundStart + count;
+      for (let index = 0; index < count; index++) {
+        const isLastRound = round === rounds - 1;
+        const nextSlot = index % 2 === 0 ? "player1" : "player2";
+        matches.push({
+          id: roundStart + index,
+          round,
+          player1: round === 0 ? slots[index * 2] : null,
+          player2: round === 0 ? slots[index * 2 + 1] : null,
+          status: "waiting",
+          winner: null,
+          scores: null,
+          nextMatchId: isLastRound
+            ? null
+            : nextRoundStart + Math.floor(index / 2),
+          nextSlot: isLastRound ? null : nextSlot,
+        });
+      }
+      roundStart = nextRoundStart;
+    }
+    return matches;
+  }
+
+  // Circle method: everyone plays everyone once, one match per pair per round
+  private createRoundRobinSchedule(): TournamentMatch[] {
+    const ids: (string | null)[] = this.entrants.map((entrant) => entrant.id);
+    if (ids.length % 2 === 1) ids.push(null);
+
+    const matches: TournamentMatch[] = [];
+    for (let round = 0; round < ids.length - 1; round++) {
+      for (let index = 0; index < ids.length / 2; index++) {
+        const player1 = ids[index];
+        const player2 = ids[ids.length - 1 - index];
+        if (player1 && player2) {
+          matches.push({
+            id: matches.length,
+            round,
+            player1,
+            player2,
+            status: "waiting",
+            winner: null,
+            scores: null,
+            nextMatchId: null,
+            nextSlot: null,
+          });
+        }
+      }
+      // Keep the first entrant fixed and rotate the rest
+      ids.splice(1, 0, ids.pop() as string | null);
+    }
+    return matches;
+  }
+
+  // Resolve everything that no longer needs playing (byes, withdrawn
+  // players), move winners along the bracket and crown the champion
+  private settle(): void {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const match of this.matches) {
+        if (match.status !== "waiting" && match.status !== "ready") continue;
+        if (match.status === "waiting" && !this.feedersDecided(match)) continue;
+
+        const present = [match.player1, match.player2].filter(
+          (id): id is string => id !== null && !this.withdrawn.has(id)
+        );
+        if (present.length === 2) {
+          if (match.status !== "ready") {
+            match.status = "ready";
+            changed = true;
+          }
+        } else {
+          this.decide(match, present[0] ?? null, null, "walkover");
+          changed = true;
+        }
+      }
+    }
+
+    if (!this.isFinished()) return;
+    if (this.format === "single-elimination") {
+      this.champion = this.matches[this.matches.length - 1]?.winner ?? null;
+    } else {
+      const leader = this.getStandings().find(
+        (standing) => !this.withdrawn.has(standing.id)
+      );
+      this.champion = leader?.id ?? null;
+    }
+  }
+
+  private feedersDecided(match: TournamentMatch): boolean {
+    return this.matches
+      .filter((other) => other.nextMatchId === match.id)
+      .every(isDecided);
+  }
+
+  private decide(
+    match: TournamentMatch,
+    winner: string | null,
+    scores: { player1: number; player2: number } | null,
+    status: "finished" | "walkover"
+  ): void {
+    match.winner = winner;
+    match.scores = scores;
+    match.status = status;
+
+    if (match.nextMatchId !== null && match.nextSlot) {
+      const next = this.matches[match.nextMatchId];
+      next[match.nextSlot] = winner;
+    }
+  }
+
+  getCurrentMatch(): TournamentMatch | undefined {
+    return this.currentMatchId === null
+      ? undefined
+      : this.matches[this.currentMatchId];
+  }
+
+  // Next match to play, in schedule order
+  getNextMatch(): TournamentMatch | undefined {
+    return this.matches.find((match) => match.status === "ready");
+  }
+
+  startMatch(matchId: number): void {
+    const match = this.matches[matchId];
+    if (match?.status !== "ready") {
+      throw new Error("El partido del torneo no está listo para jugarse");
+    }
+    match.status = "playing";
+    this.currentMatchId = matchId;
+    this.nextMatchAt = null;
+  }
+
+  // Record the result of the match in progress
+  recordResult(
+    winnerId: string,
+    scores: { player1: number; player2: number },
+    breakMs: number
+  ): void {
+    const match = this.getCurrentMatch();
+    if (!match) return;
+
+    this.decide(match, winnerId, scores, "finished");
+    this.currentMatchId = null;
+    this.settle();
+    this.nextMatchAt = this.isFinished() ? null : Date.now() + breakMs;
+  }
+
+  // A player left the room: every match they still had to play is lost
+  withdraw(playerId: string): void {
+    if (!this.entrants.some((entrant) => entrant.id === playerId)) return;
+    this.withdrawn.add(playerId);
+    this.settle();
+  }
+
+  // An entrant is back under a new socket id: their bracket slots, results
+  // and withdrawal follow them
+  rebindEntrant(playerName: string, playerId: string): void {
+    const entrant = this.entrants.find(
+      (entrant) => entrant.name === playerName
+    );
+    if (!entrant || entrant.id === playerId) return;
+
+    const oldId = entrant.id;
+    const rebind = (id: string | null) => (id === oldId ? playerId : id);
+    entrant.id = playerId;
+    for (const match of this.matches) {
+      match.player1 = rebind(match.player1);
+      match.player2 = rebind(match.player2);
+      match.winner = rebind(match.winner);
+    }
+    this.champion = rebind(this.champion);
+    if (this.withdrawn.delete(oldId)) {
+      this.withdrawn.add(playerId);
+    }
+  }
+
+  isEntrant(playerId: string): boolean {
+    return this.entrants.some((entrant) => entrant.id === playerId);
+  }
+
+  isFinished(): boolean {
+    return this.matches.every(isDecided);
+  }
+
+  // Ranking by wins, then point difference, then points scored
+  getStandings(): TournamentStanding[] {
+    const standings = new Map<string, TournamentStanding>(
+      this.entrants.map((entrant) => [
+        entrant.id,
+        {
+          id: entrant.id,
+          name: entrant.name,
+          played: 0,
+          wins: 0,
+          losses: 0,
+          pointsFor: 0,
+          pointsAgainst: 0,
+        },
+      ])
+    );
+
+    for (const match of this.matches) {
+      if (!isDecided(match) || !match.player1 || !match.player2) continue;
+
+      const sides = [
+        [match.player1, "player1", "player2"],
+        [match.player2, "player2", "player1"],
+      ] as const;
+      for (const [id, own, other] of sides) {
+        const standing = standings.get(id);
+        if (!standing) continue;
+        standing.played++;
+        if (match.winner === id) standing.wins++;
+        else standing.losses++;
+        standing.pointsFor += match.scores?.[own] ?? 0;
+        standing.pointsAgainst += match.scores?.[other] ?? 0;
+      }
+    }
+
+    return Array.from(standings.values()).sort(
+      (a, b) =>
+        b.wins - a.wins ||
+        b.pointsFor - b.pointsAgainst - (a.pointsFor - a.pointsAgainst) ||
+        b.pointsFor - a.pointsFor
+    );
+  }
+
+  toJSON(): any {
+    return {
+      format: this.format,
+      rules: this.rules,
+      entrants: this.entrants.map((entrant) => ({
+        ...entrant,
+        withdrawn: this.withdrawn.has(entrant.id),
+      })),
+      matches: this.matches,
+      currentMatchId: this.currentMatchId,
+      champion: this.champion,
+      nextMatchAt: this.nextMatchAt,
+      standings: this.getStandings(),
+    };
+  }
+}
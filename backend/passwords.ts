@@ -0,0 +1,38 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+
+// Room passwords are stored (and published to Redis) only as salted scrypt
+// hashes: "scrypt:<salt>:<hash>", both base64
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+const deriveKey = (password: string, salt: Buffer): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_BYTES, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt);
+  return `scrypt:${salt.toString("base64")}:${key.toString("base64")}`;
+};
+
+// Constant-time check of a password against a hash from hashPassword
+export const verifyPassword = async (
+  password: string,
+  passwordHash: string
+): Promise<boolean> => {
+  const [scheme, salt, hash] = passwordHash.split(":");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "base64");
+  const actual = await deriveKey(
+    typeof password === "string" ? password : "",
+    Buffer.from(salt, "base64")
+  );
+  return (
+    actual.length === expected.length && timingSafeEqual(actual, expected)
+  );
+};
@@ -1,4 +1,5 @@
-import { createClient, RedisClientType } from "redis";
+import { createClient, RedisClientType, WatchError } from "redis";
+import type { GameSnapshot } from "./game/snapshot";
 
 export const pub: RedisClientType = createClient({
   socket: {
@@ -9,10 +10,15 @@ export const pub: RedisClientType = createClient({
 
 export const sub: RedisClientType = pub.duplicate();
 
+// Subscriber of the Socket.IO adapter (see redisAdapter.ts), which listens
+// in binary mode on its own channels
+export const adapterSub: RedisClientType = pub.duplicate();
+
 export const initializeRedis = async () => {
   try {
     await pub.connect();
     await sub.connect();
+    await adapterSub.connect();
     console.log("Redis connected successfully");
   } catch (error) {
     console.error("Redis connection failed:", error);
@@ -20,13 +26,23 @@ export const initializeRedis = async () => {
   }
 };
 
-export const publishGameState = async (roomName: string, state: any) => {
+// The owner's compact snapshot of a match (see game/snapshot.ts), the same
+// one its own clients get. `startedAt` tells the match apart from the
+// previous one in the room.
+export const publishGameState = async (
+  roomName: string,
+  snapshot: GameSnapshot,
+  startedAt: number,
+  fencingToken: number
+) => {
   try {
     const message = JSON.stringify({
       roomName,
-      state,
+      snapshot,
+      startedAt,
       timestamp: Date.now(),
       serverId: process.env.SERVER_ID || "default-server",
+      fencingToken,
     });
     await pub.publish(`game-state:${roomName}`, message);
   } catch (error) {
@@ -102,6 +118,50 @@ export const subscribeToRoomMetadata = async (
   }
 };
 
+// A paddle input received by a server that does not run the room's match,
+// on its way to the one that does
+export interface ForwardedPaddleInput {
+  playerName: string;
+  input: { direction?: number; target?: number; ticks?: number };
+  sequence: number;
+}
+
+export const publishPaddleInput = async (
+  roomName: string,
+  forwarded: ForwardedPaddleInput
+) => {
+  try {
+    await pub.publish(`paddle-input:${roomName}`, JSON.stringify(forwarded));
+  } catch (error) {
+    console.error("Failed to publish paddle input:", error);
+  }
+};
+
+export const subscribeToPaddleInput = async (
+  roomName: string,
+  callback: (forwarded: ForwardedPaddleInput) => void
+) => {
+  try {
+    await sub.subscribe(`paddle-input:${roomName}`, (message: string) => {
+      try {
+        callback(JSON.parse(message));
+      } catch (error) {
+        console.error("Failed to parse paddle input message:", error);
+      }
+    });
+  } catch (error) {
+    console.error("Failed to subscribe to paddle input:", error);
+  }
+};
+
+export const unsubscribeFromPaddleInput = async (roomName: string) => {
+  try {
+    await sub.unsubscribe(`paddle-input:${roomName}`);
+  } catch (error) {
+    console.error("Failed to unsubscribe from paddle input:", error);
+  }
+};
+
 export const unsubscribeFromGameState = async (roomName: string) => {
   try {
     await sub.unsubscribe(`game-state:${roomName}`);
@@ -137,8 +197,9 @@ export const checkRoomMetadataExists = async (
     const exists = await pub.exists(metadataKey);
     return exists === 1;
   } catch (error) {
+    // Not the same as "no such room": callers must not create it over this
     console.error("Error checking room metadata existence:", error);
-    return false;
+    throw error;
   }
 };
 
@@ -160,11 +221,15 @@ export const getRoomMetadataFromRedis = async (
   }
 };
 
-// Function to publish primary server election
-export const publishPrimaryServerElection = async (serverId: string) => {
+// Announce a newly elected leader and the fencing token of its term
+export const publishPrimaryServerElection = async (
+  serverId: string,
+  fencingToken: number
+) => {
   try {
     const message = JSON.stringify({
       serverId,
+      fencingToken,
       timestamp: Date.now(),
       type: "primary-election",
       status: "elected",
@@ -175,6 +240,389 @@ export const publishPrimaryServerElection = async (serverId: string) => {
   }
 };
 
+// Leases: a key held by one process (`value`) that expires unless renewed.
+// Taking a lease also bumps `tokenKey`, the fencing token of the new term.
+const ACQUIRE_LEASE_SCRIPT = `
+if redis.call("SET", KEYS[1], ARGV[1], "NX", "PX", ARGV[2]) then
+  return redis.call("INCR", KEYS[2])
+end
+return 0`;
+
+const RENEW_LEASE_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("PEXPIRE", KEYS[1], ARGV[2])
+end
+return 0`;
+
+const RELEASE_LEASE_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0`;
+
+// Returns the fencing token of the new term, or 0 if someone else holds it
+export const acquireLease = async (
+  key: string,
+  tokenKey: string,
+  value: string,
+  ttlMs: number
+): Promise<number> => {
+  const token = await pub.eval(ACQUIRE_LEASE_SCRIPT, {
+    keys: [key, tokenKey],
+    arguments: [value, String(ttlMs)],
+  });
+  return Number(token) || 0;
+};
+
+// Extend the lease, only if `value` still holds it
+export const renewLease = async (
+  key: string,
+  value: string,
+  ttlMs: number
+): Promise<boolean> => {
+  const renewed = await pub.eval(RENEW_LEASE_SCRIPT, {
+    keys: [key],
+    arguments: [value, String(ttlMs)],
+  });
+  return renewed === 1;
+};
+
+// Current holder of a lease, if any
+export const getLeaseHolder = async (key: string): Promise<string | null> =>
+  pub.get(key);
+
+export const releaseLease = async (
+  key: string,
+  value: string
+): Promise<void> => {
+  await pub.eval(RELEASE_LEASE_SCRIPT, { keys: [key], arguments: [value] });
+};
+
+// Room ownership lease and the fencing token of its current term
+export const roomOwnerKey = (roomName: string) => `room:${roomName}:owner`;
+export const roomOwnerTokenKey = (roomName: string) =>
+  `room:${roomName}:owner-token`;
+
+const checkpointKey = (roomName: string) => `room:${roomName}:checkpoint`;
+
+// Checkpoints of abandoned matches are not worth keeping forever
+const CHECKPOINT_TTL_MS = 10 * 60 * 1000;
+
+// Write the checkpoint only if `fencingToken` is still the room's latest
+// ownership term, so a deposed owner cannot overwrite its successor's
+const SAVE_CHECKPOINT_SCRIPT = `
+if redis.call("GET", KEYS[2]) == ARGV[2] then
+  redis.call("SET", KEYS[1], ARGV[1], "PX", ARGV[3])
+  return 1
+end
+return 0`;
+
+// Durable copy of a match in progress, so another server can resume it
+export const saveGameCheckpoint = async (
+  roomName: string,
+  gameState: any,
+  fencingToken: number
+): Promise<boolean> => {
+  try {
+    const checkpoint = JSON.stringify({
+      gameState,
+      fencingToken,
+      timestamp: Date.now(),
+      serverId: process.env.SERVER_ID || "default-server",
+    });
+    const saved = await pub.eval(SAVE_CHECKPOINT_SCRIPT, {
+      keys: [checkpointKey(roomName), roomOwnerTokenKey(roomName)],
+      arguments: [checkpoint, String(fencingToken), String(CHECKPOINT_TTL_MS)],
+    });
+    return saved === 1;
+  } catch (error) {
+    console.error("Failed to save game checkpoint:", error);
+    return false;
+  }
+};
+
+export const getGameCheckpoint = async (roomName: string): Promise<any> => {
+  try {
+    const checkpoint = await pub.get(checkpointKey(roomName));
+    return checkpoint ? JSON.parse(checkpoint) : null;
+  } catch (error) {
+    console.error("Failed to get game checkpoint:", error);
+    return null;
+  }
+};
+
+export const deleteGameCheckpoint = async (roomName: string) => {
+  try {
+    await pub.del(checkpointKey(roomName));
+  } catch (error) {
+    console.error("Failed to delete game checkpoint:", error);
+  }
+};
+
+const sessionKey = (sessionId: string) => `session:${sessionId}`;
+
+// Player sessions, so a reconnect to any server resumes the same identity
+export const saveSession = async (
+  sessionId: string,
+  session: any,
+  ttlMs: number
+): Promise<void> => {
+  await pub.set(sessionKey(sessionId), JSON.stringify(session), { PX: ttlMs });
+};
+
+export const getSession = async (sessionId: string): Promise<any> => {
+  try {
+    const session = await pub.get(sessionKey(sessionId));
+    return session ? JSON.parse(session) : null;
+  } catch (error) {
+    console.error("Failed to get session:", error);
+    return null;
+  }
+};
+
+export const deleteSession = async (sessionId: string) => {
+  try {
+    await pub.del(sessionKey(sessionId));
+  } catch (error) {
+    console.error("Failed to delete session:", error);
+  }
+};
+
+// Accounts are keyed by lower-cased username, so names are unique
+// regardless of case
+const accountKey = (username: string) => `account:${username.toLowerCase()}`;
+const loginKey = (loginId: string) => `login:${loginId}`;
+
+// Only creates the account if the name is free; false if it was taken
+export const createAccount = async (account: any): Promise<boolean> => {
+  const created = await pub.set(
+    accountKey(account.username),
+    JSON.stringify(account),
+    { NX: true }
+  );
+  return created === "OK";
+};
+
+export const getAccount = async (username: string): Promise<any> => {
+  try {
+    const account = await pub.get(accountKey(username));
+    return account ? JSON.parse(account) : null;
+  } catch (error) {
+    // Not the same as "no such account": a guest could take the name
+    console.error("Failed to get account:", error);
+    throw error;
+  }
+};
+
+// Logins of an account, so a client keeps it across reconnects and servers
+export const saveLogin = async (
+  loginId: string,
+  login: any,
+  ttlMs: number
+): Promise<void> => {
+  await pub.set(loginKey(loginId), JSON.stringify(login), { PX: ttlMs });
+};
+
+export const getLogin = async (loginId: string): Promise<any> => {
+  try {
+    const login = await pub.get(loginKey(loginId));
+    return login ? JSON.parse(login) : null;
+  } catch (error) {
+    console.error("Failed to get login:", error);
+    return null;
+  }
+};
+
+export const deleteLogin = async (loginId: string) => {
+  try {
+    await pub.del(loginKey(loginId));
+  } catch (error) {
+    console.error("Failed to delete login:", error);
+  }
+};
+
+// Match history: newest first, each list capped at `maxLength` entries
+export const matchHistoryKey = (scope: string) => `matches:${scope}`;
+
+export const saveMatchRecord = async (
+  record: any,
+  historyKeys: string[],
+  maxLength: number
+): Promise<void> => {
+  const multi = pub.multi();
+  const entry = JSON.stringify(record);
+  for (const key of historyKeys) {
+    multi.lPush(key, entry);
+    multi.lTrim(key, 0, maxLength - 1);
+  }
+  await multi.exec();
+};
+
+export const getMatchRecords = async (
+  historyKey: string,
+  limit: number
+): Promise<any[]> => {
+  try {
+    const entries = await pub.lRange(historyKey, 0, limit - 1);
+    return entries.map((entry) => JSON.parse(entry));
+  } catch (error) {
+    console.error("Failed to get match history:", error);
+    return [];
+  }
+};
+
+// Match replays by match id, each kept for `ttlMs`
+const replayKey = (matchId: string) => `replay:${matchId}`;
+
+export const saveReplay = async (
+  matchId: string,
+  replay: any,
+  ttlMs: number
+): Promise<void> => {
+  await pub.set(replayKey(matchId), JSON.stringify(replay), { PX: ttlMs });
+};
+
+export const getReplay = async (matchId: string): Promise<any> => {
+  const replay = await pub.get(replayKey(matchId));
+  return replay ? JSON.parse(replay) : null;
+};
+
+// Player ratings by account id, plus a sorted set of them for the
+// leaderboard
+const ratingKey = (accountId: string) => `rating:${accountId}`;
+const LEADERBOARD_KEY = "leaderboard";
+// Tries of an update whose ratings another server changed meanwhile
+const RATING_UPDATE_ATTEMPTS = 5;
+
+export interface StoredRating {
+  accountId: string;
+  username: string;
+  rating: number;
+  wins: number; // Rated matches only
+  losses: number;
+  forfeits: number; // Matches abandoned or lost to a disconnect (unrated)
+  updatedAt: number;
+}
+
+export const getRatings = async (
+  accountIds: string[]
+): Promise<(StoredRating | null)[]> => {
+  const ratings = await pub.mGet(accountIds.map(ratingKey));
+  return ratings.map((rating) => (rating ? JSON.parse(rating) : null));
+};
+
+// Read, change and write the ratings of `accountIds` as one transaction:
+// WATCH the keys, and start over if another server wrote any of them
+// before our MULTI ran. `update` gets the stored ratings (null for new
+// accounts), in order, and returns the ones to save.
+export const updateRatings = async (
+  accountIds: string[],
+  update: (stored: (StoredRating | null)[]) => StoredRating[]
+): Promise<StoredRating[]> => {
+  const keys = accountIds.map(ratingKey);
+  for (let attempt = 0; attempt < RATING_UPDATE_ATTEMPTS; attempt++) {
+    const saved = await pub.executeIsolated(async (client) => {
+      await client.watch(keys);
+      const stored = await client.mGet(keys);
+      const ratings = update(
+        stored.map((rating) => (rating ? JSON.parse(rating) : null))
+      );
+
+      const multi = client.multi();
+      for (const rating of ratings) {
+        multi.set(ratingKey(rating.accountId), JSON.stringify(rating));
+        multi.zAdd(LEADERBOARD_KEY, {
+          score: rating.rating,
+          value: rating.accountId,
+        });
+      }
+      try {
+        await multi.exec();
+        return ratings;
+      } catch (error) {
+        if (error instanceof WatchError) return null;
+        throw error;
+      }
+    });
+    if (saved) return saved;
+  }
+  throw new Error("Ratings kept changing while updating them");
+};
+
+// Highest rated first
+export const getTopRatings = async (limit: number): Promise<StoredRating[]> => {
+  try {
+    const accountIds = await pub.zRange(LEADERBOARD_KEY, 0, limit - 1, {
+      REV: true,
+    });
+    if (accountIds.length === 0) return [];
+    return (await getRatings(accountIds)).filter(
+      (rating): rating is StoredRating => rating !== null
+    );
+  } catch (error) {
+    console.error("Failed to get leaderboard:", error);
+    return [];
+  }
+};
+
+// Matchmaking queue: every waiting ticket, by id, in one hash
+const MATCHMAKING_KEY = "matchmaking:tickets";
+
+// Takes both tickets out of the queue, only if neither was taken already
+const CLAIM_TICKETS_SCRIPT = `
+if redis.call("HEXISTS", KEYS[1], ARGV[1]) == 1
+  and redis.call("HEXISTS", KEYS[1], ARGV[2]) == 1 then
+  return redis.call("HDEL", KEYS[1], ARGV[1], ARGV[2])
+end
+return 0`;
+
+export const saveMatchmakingTicket = async (ticket: any): Promise<void> => {
+  await pub.hSet(MATCHMAKING_KEY, ticket.id, JSON.stringify(ticket));
+};
+
+export const deleteMatchmakingTicket = async (
+  ticketId: string
+): Promise<boolean> => {
+  return (await pub.hDel(MATCHMAKING_KEY, ticketId)) === 1;
+};
+
+export const getMatchmakingTickets = async (): Promise<any[]> => {
+  const tickets = await pub.hGetAll(MATCHMAKING_KEY);
+  return Object.values(tickets).map((ticket) => JSON.parse(ticket));
+};
+
+export const claimMatchmakingTickets = async (
+  ticketIds: [string, string]
+): Promise<boolean> => {
+  const claimed = await pub.eval(CLAIM_TICKETS_SCRIPT, {
+    keys: [MATCHMAKING_KEY],
+    arguments: ticketIds,
+  });
+  return claimed === 2;
+};
+
+// Matches paired by the leader, until both players reach the server their
+// room routes to (see MatchmakingService)
+const pendingMatchKey = (roomName: string) => `matchmaking:match:${roomName}`;
+
+export const savePendingMatch = async (
+  match: any,
+  ttlMs: number
+): Promise<void> => {
+  await pub.set(pendingMatchKey(match.room), JSON.stringify(match), {
+    PX: ttlMs,
+  });
+};
+
+export const getPendingMatch = async (roomName: string): Promise<any> => {
+  const match = await pub.get(pendingMatchKey(roomName));
+  return match ? JSON.parse(match) : null;
+};
+
+export const deletePendingMatch = async (roomName: string): Promise<void> => {
+  await pub.del(pendingMatchKey(roomName));
+};
+
 // Enhanced function to get all active rooms from Redis with better debugging
 export const getAllActiveRoomsFromRedis = async (): Promise<string[]> => {
   try {
@@ -248,6 +696,7 @@ export const closeRedis = async () => {
   try {
     await pub.quit();
     await sub.quit();
+    await adapterSub.quit();
     console.log("Redis connections closed");
   } catch (error) {
     console.error("Error closing Redis connections:", error);
@@ -0,0 +1,12 @@
+import { createAdapter } from "@socket.io/redis-adapter";
+import { adapterSub, pub } from "./redis";
+
+// Socket.IO's Redis adapter: room broadcasts (`io.to(room).emit(...)`),
+// `fetchSockets`, `socketsJoin`/`socketsLeave`, `disconnectSockets` and
+// `serverSideEmit` reach the sockets of every server, not just this one.
+// Packets go through Redis as msgpack, so binary payloads arrive as
+// buffers. Broadcasts flagged `local` (`io.local.to(...)`) stay on this
+// server.
+
+// Install once Redis is connected: the adapter subscribes on creation
+export const createRedisAdapter = () => createAdapter(pub, adapterSub);
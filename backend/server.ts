@@ -1,19 +1,35 @@
 import express from "express";
 import http from "node:http";
+import os from "node:os";
 import { Server as SocketIOServer, Socket } from "socket.io";
 import cors from "cors";
 import dotenv from "dotenv";
 import { RoomController } from "./controllers/RoomController";
+import { LeaderElection } from "./services/LeaderElection";
+import { ROOM_LEASE_RENEW_MS } from "./services/RoomOwnership";
+import { ServerRegistry } from "./services/ServerRegistry";
+import { version } from "./package.json";
+import { MatchRules } from "./game/rules";
+import { TournamentFormat } from "./models/Tournament";
+import { RoomMode } from "./models/Room";
+import { TICK_RATE } from "./game/physics";
+import { negotiateWireFormat } from "./game/wireFormat";
+import { createRedisAdapter } from "./redisAdapter";
 import {
   initializeRedis,
   publishGameState,
   closeRedis,
-  publishPrimaryServerElection,
   checkRedisHealth,
 } from "./redis";
 
 dotenv.config();
 
+// Replicas started from the same config (docker compose --scale) tell
+// themselves apart by container hostname
+if (!process.env.SERVER_ID) {
+  process.env.SERVER_ID = os.hostname();
+}
+
 // ------------------------------
 // 🌐 CORS BASADO 100% EN DOMAIN
 // ------------------------------
@@ -24,17 +40,22 @@ const url = new URL(DOMAIN);
 const PROTOCOL = url.protocol; // http: o https:
 const HOSTNAME = url.hostname; // localhost o dominio real
 
-// Puertos del backend (node A y node B)
+// Puerto de este servidor (cada réplica tiene el suyo)
 const SERVER_PORT = process.env.SERVER_PORT || "3001";
-const BACKUP_PORT = process.env.BACKUP_SERVER_PORT || "3002";
+
+// Orígenes extra separados por comas (otros dominios del frontend)
+const EXTRA_ORIGINS = (process.env.CORS_ORIGINS || "")
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
 
 // Rutas de servidores válidos (para FE)
 const ALLOWED_ORIGINS = [
   `${PROTOCOL}//${HOSTNAME}:${process.env.FRONTEND_PORT || 5173}`,
   `${PROTOCOL}//${HOSTNAME}:80`,
   `${PROTOCOL}//${HOSTNAME}:${SERVER_PORT}`,
-  `${PROTOCOL}//${HOSTNAME}:${BACKUP_PORT}`,
   DOMAIN, // dominio raíz también permitido
+  ...EXTRA_ORIGINS,
 ];
 
 const app = express();
@@ -65,55 +86,126 @@ console.log("PROTOCOL:", PROTOCOL);
 console.log("HOSTNAME:", HOSTNAME);
 
 console.log("SERVER_PORT:", SERVER_PORT);
-console.log("BACKUP_PORT:", BACKUP_PORT);
 console.log("FRONTEND_PORT:", process.env.FRONTEND_PORT);
 
 console.log("ALLOWED_ORIGINS:", ALLOWED_ORIGINS);
 
-const roomController = new RoomController(io);
+const SERVER_ID = process.env.SERVER_ID || "default-server";
 
-// Subscribe to primary server election messages
-const subscribeToPrimaryServerElection = async () => {
-  try {
-    const { sub } = await import("./redis");
+// How often the players waiting for a public match are paired
+const MATCHMAKING_INTERVAL_MS = parseInt(
+  process.env.MATCHMAKING_INTERVAL_MS || "1000"
+);
 
-    await sub.subscribe("primary-server-election", (message: string) => {});
-  } catch (error) {
-    console.error("Failed to subscribe to primary server election:", error);
+// Every server competes for the leader lease; the leader adopts matches
+// whose owning server died
+const leaderElection = new LeaderElection(SERVER_ID);
+
+// Heartbeat registry: which peers are alive, used for room ownership
+const serverRegistry = new ServerRegistry(
+  SERVER_ID,
+  process.env.SERVER_ADDRESS || `${PROTOCOL}//${HOSTNAME}:${SERVER_PORT}`,
+  version
+);
+
+const roomController = new RoomController(io, leaderElection, serverRegistry);
+
+// Server discovery: the live servers clients may connect to. The leader
+// comes first so that clients (and the players of a room) gather on the
+// same server; the rest follow as fallbacks, least loaded first.
+app.get("/servers", (_req, res) => {
+  const leaderId = leaderElection.getLeaderId();
+  const servers = serverRegistry
+    .getMembers()
+    .map((member) => ({ ...member, isLeader: member.id === leaderId }))
+    .sort(
+      (a, b) => Number(b.isLeader) - Number(a.isLeader) || a.load - b.load
+    );
+  res.json({ leaderId, servers });
+});
+
+// Match history: a player's latest matches with ?player=, otherwise the
+// latest of all rooms
+app.get("/matches", async (req, res) => {
+  const matches = await roomController.getMatchHistory(
+    req.query.player,
+    req.query.limit
+  );
+  res.json({ matches });
+});
+
+// Highest rated players
+app.get("/leaderboard", async (req, res) => {
+  const entries = await roomController.getLeaderboard(req.query.limit);
+  res.json({ entries });
+});
+
+// A match's replay as recorded (seed, starting state and inputs), to check
+// it against the physics outside the game
+app.get("/replays/:matchId", async (req, res) => {
+  try {
+    res.json(await roomController.getReplayRecording(req.params.matchId));
+  } catch (error: any) {
+    res.status(404).json({ error: error.message });
   }
-};
+});
+
+// A dead peer's matches are picked up right away rather than on the next
+// ownership round
+serverRegistry.onMembershipChange((event) => {
+  if (event !== "expired") return;
+  roomController.maintainRoomOwnership().catch((error) => {
+    console.error("Failed to take over rooms of expired server:", error);
+  });
+});
+
+leaderElection.onLeadershipChange((isLeader, fencingToken) => {
+  console.log(
+    isLeader
+      ? `👑 Elected leader (fencing token ${fencingToken})`
+      : "🔻 Stepped down as leader"
+  );
+});
 
-// Distributed game loop: publish game state to Redis at 120 FPS for smoother gameplay
+// Distributed game loop: checks every physics tick which of the rooms this
+// server owns are due a game-update at their own send rate, then broadcasts
+// the snapshot and publishes it to Redis stamped with the room's fencing
+// token so the other servers can relay it
 setInterval(async () => {
-  const rooms = roomController.getAllRooms();
+  roomController.advanceTournaments();
+  roomController.advanceCourtQueues();
+  roomController.advancePausedMatches();
+  roomController.expireDisconnectedPlayers();
+  roomController.recordFinishedMatches();
+
+  const rooms = roomController.getRoomsDueForSnapshot();
   for (const room of rooms) {
-    if (room.isGameActive && room.gameState) {
-      // Ensure timestamp is updated for client interpolation
-      room.gameState.timestamp = Date.now();
-      await publishGameState(room.name, room.gameState);
-      io.to(room.name).emit("game-update", room.gameState);
+    const snapshot = roomController.broadcastGameSnapshot(room);
+    const fencingToken = roomController.getRoomOwnerToken(room.name);
+    if (snapshot && room.gameState && fencingToken !== null) {
+      await publishGameState(
+        room.name,
+        snapshot,
+        room.gameState.startedAt,
+        fencingToken
+      );
     }
   }
-}, 1000 / 120); // 120 FPS for smoother synchronization
-
-// Primary server election - Server A stays active, Server B stays backup
-const handlePrimaryServerElection = async () => {
-  const serverId = process.env.SERVER_ID || "default-server";
-  const isServerA = serverId === "server_a";
+}, 1000 / TICK_RATE);
 
-  if (isServerA) {
-    // Check Redis health first
-    const redisHealthy = await checkRedisHealth();
-
-    if (!redisHealthy) {
-      console.error("❌ Redis is not healthy! Cannot proceed.");
-      return;
-    }
+// Keep room leases alive and checkpoint the matches this server owns
+setInterval(() => {
+  roomController.maintainRoomOwnership().catch((error) => {
+    console.error("Failed to maintain room ownership:", error);
+  });
+}, ROOM_LEASE_RENEW_MS);
 
-    // Publish primary server election (informational only)
-    await publishPrimaryServerElection(serverId);
-  }
-};
+// Pair the players waiting for a public match
+setInterval(() => {
+  roomController.runMatchmaking().catch((error) => {
+    console.error("Matchmaking round failed:", error);
+  });
+}, MATCHMAKING_INTERVAL_MS);
 
 // Subscribe to ALL room updates on server start (not just active games)
 const subscribeToAllRooms = async () => {
@@ -123,10 +215,53 @@ const subscribeToAllRooms = async () => {
   }
 };
 
+// Login handshake: sockets that bring an account's login token are logged
+// in before their first event
+io.use((socket, next) => {
+  roomController
+    .authenticate(socket)
+    .then(() => next())
+    .catch(next);
+});
+
+// Sent by the other servers through the Redis adapter
+io.on("player-removed", (data) => {
+  roomController.handleRemotePlayerRemoval(data).catch((error) => {
+    console.error("Failed to remove player:", error);
+  });
+});
+
 // Socket.IO connection handling
 io.on("connection", (socket: Socket) => {
   console.log("User connected:", socket.id);
 
+  // Wire format for game-update, asked for in the handshake. The client
+  // switches its paddle-input to binary once game-update arrives binary.
+  socket.data.wireFormat = negotiateWireFormat(
+    socket.handshake.auth?.wireFormat
+  );
+
+  // The login it brought is gone (expired or logged out elsewhere)
+  if (socket.handshake.auth?.accountToken && !socket.data.account) {
+    socket.emit("logged-out");
+  }
+
+  // Accounts: register, log in and out (only outside a room)
+  socket.on(
+    "register",
+    async (data: { username: string; password: string }) => {
+      await roomController.handleRegister(socket, data);
+    }
+  );
+
+  socket.on("login", async (data: { username: string; password: string }) => {
+    await roomController.handleLogin(socket, data);
+  });
+
+  socket.on("logout", async () => {
+    await roomController.handleLogout(socket);
+  });
+
   // Join room
   socket.on(
     "join-room",
@@ -134,26 +269,87 @@ io.on("connection", (socket: Socket) => {
       roomName: string;
       password: string;
       playerName: string;
+      asSpectator?: boolean;
+      sessionToken?: string;
     }) => {
       console.log("Server received join-room event:", data);
       await roomController.handleJoinRoom(socket, data);
     }
   );
 
-  // Start game
-  socket.on("start-game", async (selectedPlayerIds: string[]) => {
-    console.log("Server received start-game event from socket:", socket.id);
-    console.log("Selected players:", selectedPlayerIds);
-    roomController.handleStartGame(socket, selectedPlayerIds);
-
-    // Subscribe to Redis updates for this room after game starts
-    const player = roomController["roomService"].getPlayer(socket.id);
-    if (player) {
-      console.log("Subscribing to Redis updates for room:", player.room);
-      await roomController.subscribeToRoomUpdates(player.room);
-    } else {
-      console.log("No player found for socket:", socket.id);
+  // Start game (legacy clients send just the array of player ids)
+  socket.on(
+    "start-game",
+    async (
+      data:
+        | string[]
+        | { selectedPlayerIds: string[]; rules?: Partial<MatchRules> }
+    ) => {
+      const { selectedPlayerIds, rules } = Array.isArray(data)
+        ? { selectedPlayerIds: data, rules: undefined }
+        : data;
+      console.log("Server received start-game event from socket:", socket.id);
+      console.log("Selected players:", selectedPlayerIds);
+      roomController.handleStartGame(socket, selectedPlayerIds, rules);
+
+      // Subscribe to Redis updates for this room after game starts
+      const player = roomController["roomService"].getPlayer(socket.id);
+      if (player) {
+        console.log("Subscribing to Redis updates for room:", player.room);
+        await roomController.subscribeToRoomUpdates(player.room);
+      } else {
+        console.log("No player found for socket:", socket.id);
+      }
     }
+  );
+
+  // Start a tournament over everyone in the room (host only)
+  socket.on(
+    "start-tournament",
+    async (data: {
+      format: TournamentFormat;
+      rules?: Partial<MatchRules>;
+    }) => {
+      roomController.handleStartTournament(socket, data);
+
+      const player = roomController["roomService"].getPlayer(socket.id);
+      if (player) {
+        await roomController.subscribeToRoomUpdates(player.room);
+      }
+    }
+  );
+
+  // Switch between host-picked matchups and king of the court (host only)
+  socket.on("set-room-mode", (data: { mode: RoomMode }) => {
+    roomController.handleSetRoomMode(socket, data);
+  });
+
+  // Host reorders the king-of-the-court queue
+  socket.on("reorder-court-queue", (data: { names: string[] }) => {
+    roomController.handleReorderCourtQueue(socket, data);
+  });
+
+  // Host hands the room over to another player
+  socket.on("transfer-host", (data: { playerId: string }) => {
+    roomController.handleTransferHost(socket, data);
+  });
+
+  // Host picks who takes over if they leave
+  socket.on("set-successor", (data: { playerId: string | null }) => {
+    roomController.handleSetSuccessor(socket, data);
+  });
+
+  // Host moderation
+  socket.on("kick-player", async (data: { playerId: string }) => {
+    await roomController.handleKickPlayer(socket, data);
+  });
+
+  socket.on("ban-player", async (data: { playerId: string }) => {
+    await roomController.handleBanPlayer(socket, data);
+  });
+
+  socket.on("lock-room", (data: { locked: boolean }) => {
+    roomController.handleLockRoom(socket, data);
   });
 
   // Update selected players
@@ -164,9 +360,66 @@ io.on("connection", (socket: Socket) => {
     }
   );
 
-  // Game update
-  socket.on("game-update", (data: { ball: any; paddles: any; scores: any }) => {
-    roomController.handleGameUpdate(socket, data);
+  // Paddle input (server moves only the sender's paddle); a Buffer when the
+  // client uses the binary wire format
+  socket.on(
+    "paddle-input",
+    (
+      data:
+        | Buffer
+        | {
+            direction?: number;
+            target?: number;
+            ticks?: number;
+            sequence: number;
+          }
+    ) => {
+      roomController.handlePaddleInput(socket, data);
+    }
+  );
+
+  // Client acknowledges the latest game-update it decoded (delta baseline)
+  socket.on("snapshot-ack", (data: { tick: number }) => {
+    roomController.handleSnapshotAck(socket, data);
+  });
+
+  // Host changes how often game-update is sent to the room
+  socket.on("set-snapshot-rate", (data: { rate: number }) => {
+    roomController.handleSetSnapshotRate(socket, data);
+  });
+
+  // Clock sync: echo the client's send time along with the server time
+  socket.on("time-ping", (data: { clientTime: number }) => {
+    socket.emit("time-pong", {
+      clientTime: data?.clientTime,
+      serverTime: Date.now(),
+    });
+  });
+
+  // Latest matches of a player
+  socket.on(
+    "get-match-history",
+    async (data: { playerName?: string; limit?: number }) => {
+      await roomController.handleGetMatchHistory(socket, data);
+    }
+  );
+
+  // Public matchmaking: wait in the queue until paired, or give up
+  socket.on("find-match", async (data: { playerName: string }) => {
+    await roomController.handleFindMatch(socket, data);
+  });
+
+  socket.on("cancel-match", async () => {
+    await roomController.handleCancelMatch(socket);
+  });
+
+  // Highest rated players
+  socket.on("get-leaderboard", async (data: { limit?: number }) => {
+    await roomController.handleGetLeaderboard(socket, data);
+  });
+
+  socket.on("get-replay", async (data: { matchId: string }) => {
+    await roomController.handleGetReplay(socket, data);
   });
 
   // Get rooms list
@@ -181,8 +434,8 @@ io.on("connection", (socket: Socket) => {
   });
 
   // Leave room
-  socket.on("leave-room", () => {
-    roomController.handleDisconnect(socket);
+  socket.on("leave-room", async () => {
+    await roomController.handleLeaveRoom(socket);
   });
 
   // Disconnect
@@ -204,13 +457,34 @@ const startServer = async () => {
     await initializeRedis();
     console.log("✅ Redis connected successfully");
 
-    // Subscribe to primary server election messages (for all servers)
-    await subscribeToPrimaryServerElection();
-    console.log("✅ Subscribed to primary server election");
+    // Room broadcasts reach the sockets of every server from now on
+    io.adapter(createRedisAdapter());
+
+    if (!(await checkRedisHealth())) {
+      throw new Error("Redis is not healthy");
+    }
 
-    // Handle primary server election and room recovery
-    await handlePrimaryServerElection();
-    console.log("✅ Primary server election completed");
+    // Register with the peers and start heartbeating
+    await serverRegistry.start(() => ({
+      load: io.engine.clientsCount,
+      roomCount: roomController.getAllRooms().length,
+    }));
+    console.log(
+      `✅ Registered server - live peers: ${
+        serverRegistry
+          .getPeers()
+          .map((peer) => peer.id)
+          .join(", ") || "none"
+      }`
+    );
+
+    // Join the leader election (renews or competes for the lease from now on)
+    await leaderElection.start();
+    console.log(
+      `✅ Joined leader election - current leader: ${
+        leaderElection.getLeaderId() || "none"
+      }`
+    );
 
     // Subscribe to all existing rooms (including lobby rooms)
     await subscribeToAllRooms();
@@ -232,13 +506,6 @@ const startServer = async () => {
         `🗄️ Redis connected at ${process.env.REDIS_HOST}:${process.env.REDIS_PORT}`
       );
       console.log("=".repeat(60));
-
-      // Add a delay to ensure Redis is fully ready before election
-      setTimeout(() => {
-        handlePrimaryServerElection().catch((error) => {
-          console.error("❌ Primary server election failed:", error);
-        });
-      }, 2000);
     });
   } catch (error) {
     console.error("Failed to start server:", error);
@@ -254,6 +521,11 @@ const gracefulShutdown = async () => {
   );
   console.log("🔄 Closing server connections...");
 
+  // Hand the lease over and leave the registry now instead of letting them
+  // expire
+  await leaderElection.stop();
+  await serverRegistry.stop();
+
   server.close(async () => {
     console.log("🔌 Server HTTP closed");
     await closeRedis();
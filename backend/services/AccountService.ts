@@ -0,0 +1,124 @@
+import { randomUUID } from "node:crypto";
+import { hashPassword, verifyPassword } from "../passwords";
+import {
+  createAccount,
+  deleteLogin,
+  getAccount,
+  getLogin,
+  saveLogin,
+} from "../redis";
+import { readToken, signToken } from "../tokens";
+
+// How long a login lasts without being used; every use extends it
+const LOGIN_TTL_MS = parseInt(process.env.LOGIN_TTL_MS || "2592000000");
+
+const USERNAME_PATTERN = /^[\p{L}\p{N}_-]{3,20}$/u;
+const MIN_PASSWORD_LENGTH = 6;
+
+interface StoredAccount {
+  id: string;
+  username: string;
+  passwordHash: string;
+  createdAt: number;
+}
+
+// What the rest of the server (and the client) gets to see of an account
+export interface Account {
+  id: string;
+  username: string;
+}
+
+interface Login {
+  id: string;
+  account: Account;
+  createdAt: number;
+}
+
+const toAccount = ({ id, username }: StoredAccount): Account => ({
+  id,
+  username,
+});
+
+// Optional registered accounts, kept in Redis. Logging in gives the client
+// a signed token (`loginId.signature`) that it sends in the handshake of
+// every later connection, so it stays logged in on any server. A registered
+// username can only be used by its owner.
+export class AccountService {
+  async register(
+    username: string,
+    password: string
+  ): Promise<{ account: Account; token: string }> {
+    if (typeof username !== "string" || !USERNAME_PATTERN.test(username)) {
+      throw new Error(
+        "El nombre de usuario debe tener entre 3 y 20 letras, números, _ o -."
+      );
+    }
+    if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(
+        `La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.`
+      );
+    }
+
+    const stored: StoredAccount = {
+      id: randomUUID(),
+      username,
+      passwordHash: await hashPassword(password),
+      createdAt: Date.now(),
+    };
+    if (!(await createAccount(stored))) {
+      throw new Error("El nombre de usuario ya está registrado.");
+    }
+
+    return this.startLogin(toAccount(stored));
+  }
+
+  async login(
+    username: string,
+    password: string
+  ): Promise<{ account: Account; token: string }> {
+    const stored: StoredAccount | null =
+      typeof username === "string" ? await getAccount(username) : null;
+    if (!stored || !(await verifyPassword(password, stored.passwordHash))) {
+      throw new Error("Usuario o contraseña incorrectos.");
+    }
+
+    return this.startLogin(toAccount(stored));
+  }
+
+  // The account behind a login token, if the signature holds and the login
+  // hasn't expired or been logged out. Extends its lifetime.
+  async resume(token: unknown): Promise<Account | null> {
+    const loginId = readToken(token);
+    if (!loginId) return null;
+
+    const login: Login | null = await getLogin(loginId);
+    if (!login) return null;
+
+    await saveLogin(loginId, login, LOGIN_TTL_MS);
+    return login.account;
+  }
+
+  async logout(token: unknown): Promise<void> {
+    const loginId = readToken(token);
+    if (loginId) await deleteLogin(loginId);
+  }
+
+  // The account registered under a name (any case), if there is one
+  async find(username: string): Promise<Account | null> {
+    const stored: StoredAccount | null = await getAccount(username);
+    return stored ? toAccount(stored) : null;
+  }
+
+  // Whether a player name belongs to a registered account (any case)
+  async isRegistered(playerName: string): Promise<boolean> {
+    return (await this.find(playerName)) !== null;
+  }
+
+  private async startLogin(
+    account: Account
+  ): Promise<{ account: Account; token: string }> {
+    const login: Login = { id: randomUUID(), account, createdAt: Date.now() };
+    await saveLogin(login.id, login, LOGIN_TTL_MS);
+    return { account, token: signToken(login.id) };
+  }
+}
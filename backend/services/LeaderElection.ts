@@ -0,0 +1,146 @@
+import { randomUUID } from "node:crypto";
+import {
+  acquireLease,
+  pub,
+  publishPrimaryServerElection,
+  releaseLease,
+  renewLease,
+  sub,
+} from "../redis";
+
+const LEASE_KEY = "leader:lease";
+const FENCING_KEY = "leader:fencing-token";
+const ELECTION_CHANNEL = "primary-server-election";
+
+// How long a lease lasts without renewal, and how often the holder renews
+// it (and the others try to take it)
+const LEASE_TTL_MS = parseInt(process.env.LEADER_LEASE_MS || "5000");
+const RENEW_INTERVAL_MS = Math.floor(LEASE_TTL_MS / 3);
+
+export type LeadershipListener = (
+  isLeader: boolean,
+  fencingToken: number | null
+) => void;
+
+// Lease-based leader election over Redis. Any number of servers can take
+// part; whoever holds the lease is the leader until it stops renewing it.
+export class LeaderElection {
+  private readonly serverId: string;
+  // Unique per process, so a restarted server never renews its old lease
+  private readonly leaseValue: string;
+  private fencingToken: number | null = null;
+  private leaseExpiresAt = 0;
+  // Highest token announced by any leader, ours included
+  private highestToken = 0;
+  private leaderId: string | null = null;
+  private readonly listeners: LeadershipListener[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(serverId: string) {
+    this.serverId = serverId;
+    this.leaseValue = `${serverId}:${randomUUID()}`;
+  }
+
+  async start(): Promise<void> {
+    await sub.subscribe(ELECTION_CHANNEL, (message: string) => {
+      try {
+        const data = JSON.parse(message);
+        this.observeLeader(data.serverId, data.fencingToken);
+      } catch (error) {
+        console.error("Failed to parse leader election message:", error);
+      }
+    });
+
+    const token = await pub.get(FENCING_KEY);
+    this.highestToken = parseInt(token || "0");
+
+    await this.runElection();
+    this.timer = setInterval(() => {
+      this.runElection().catch((error) => {
+        console.error("Leader election round failed:", error);
+      });
+    }, RENEW_INTERVAL_MS);
+  }
+
+  // Give the lease up so another server can take over right away
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    const wasLeader = this.isLeader();
+    this.setLeadership(null);
+    if (!wasLeader) return;
+
+    try {
+      await releaseLease(LEASE_KEY, this.leaseValue);
+    } catch (error) {
+      console.error("Failed to release leader lease:", error);
+    }
+  }
+
+  // Only trust the lease until it would have expired on Redis' side, even if
+  // renewals are failing
+  isLeader(): boolean {
+    return this.fencingToken !== null && Date.now() < this.leaseExpiresAt;
+  }
+
+  getFencingToken(): number | null {
+    return this.isLeader() ? this.fencingToken : null;
+  }
+
+  getLeaderId(): string | null {
+    return this.isLeader() ? this.serverId : this.leaderId;
+  }
+
+  onLeadershipChange(listener: LeadershipListener): void {
+    this.listeners.push(listener);
+  }
+
+  private async runElection(): Promise<void> {
+    // Measured before the request, so our idea of the expiry is never later
+    // than Redis'
+    const startedAt = Date.now();
+
+    if (this.fencingToken !== null) {
+      if (await renewLease(LEASE_KEY, this.leaseValue, LEASE_TTL_MS)) {
+        this.leaseExpiresAt = startedAt + LEASE_TTL_MS;
+        return;
+      }
+
+      console.warn(`⚠️ Server ${this.serverId} lost the leader lease`);
+      this.setLeadership(null);
+    }
+
+    const token = await acquireLease(
+      LEASE_KEY,
+      FENCING_KEY,
+      this.leaseValue,
+      LEASE_TTL_MS
+    );
+    if (!token) return;
+
+    this.leaseExpiresAt = startedAt + LEASE_TTL_MS;
+    this.observeLeader(this.serverId, token);
+    this.setLeadership(token);
+    console.log(
+      `👑 Server ${this.serverId} elected leader (fencing token ${token})`
+    );
+    await publishPrimaryServerElection(this.serverId, token);
+  }
+
+  private observeLeader(serverId: string, token: unknown): void {
+    if (typeof token !== "number" || token < this.highestToken) return;
+    this.highestToken = token;
+    this.leaderId = serverId;
+  }
+
+  private setLeadership(token: number | null): void {
+    if (token === this.fencingToken) return;
+    this.fencingToken = token;
+    for (const listener of this.listeners) {
+      listener(token !== null, token);
+    }
+  }
+}
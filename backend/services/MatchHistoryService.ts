@@ -0,0 +1,63 @@
+import { randomUUID } from "node:crypto";
+import { FinishedMatch } from "../models/Room";
+import { getMatchRecords, matchHistoryKey, saveMatchRecord } from "../redis";
+
+// Matches kept per player (and in the list of recent matches overall)
+const MATCH_HISTORY_SIZE = parseInt(process.env.MATCH_HISTORY_SIZE || "100");
+const DEFAULT_QUERY_LIMIT = 20;
+
+// The recording is saved on its own (see ReplayService): history lists only
+// say whether there is one
+export interface MatchRecord extends Omit<FinishedMatch, "recording"> {
+  id: string;
+  hasReplay: boolean;
+}
+
+// Players with an account are tracked by account, guests by name
+const scopeFor = (player: { name: string; accountId: string | null }) =>
+  player.accountId
+    ? `account:${player.accountId}`
+    : `player:${player.name.toLowerCase()}`;
+
+// Every decided match, kept in Redis lists: one per player and one with the
+// most recent matches of all rooms
+export class MatchHistoryService {
+  async record(match: FinishedMatch): Promise<MatchRecord> {
+    const { recording, ...details } = match;
+    const record: MatchRecord = {
+      id: randomUUID(),
+      ...details,
+      hasReplay: recording !== null,
+    };
+    const keys = [
+      matchHistoryKey("recent"),
+      ...match.players.map((player) => matchHistoryKey(scopeFor(player))),
+    ];
+    await saveMatchRecord(record, keys, MATCH_HISTORY_SIZE);
+    return record;
+  }
+
+  // Latest matches of a player: by account if `accountId` is given,
+  // otherwise those they played as a guest under `playerName`
+  async getForPlayer(
+    player: { name: string; accountId: string | null },
+    limit?: unknown
+  ): Promise<MatchRecord[]> {
+    return getMatchRecords(
+      matchHistoryKey(scopeFor(player)),
+      this.clampLimit(limit)
+    );
+  }
+
+  async getRecent(limit?: unknown): Promise<MatchRecord[]> {
+    return getMatchRecords(matchHistoryKey("recent"), this.clampLimit(limit));
+  }
+
+  private clampLimit(limit: unknown): number {
+    const value = typeof limit === "string" ? parseInt(limit) : limit;
+    if (typeof value !== "number" || !Number.isInteger(value)) {
+      return DEFAULT_QUERY_LIMIT;
+    }
+    return Math.min(Math.max(value, 1), MATCH_HISTORY_SIZE);
+  }
+}
@@ -0,0 +1,184 @@
+import { randomBytes } from "node:crypto";
+import {
+  claimMatchmakingTickets,
+  deleteMatchmakingTicket,
+  deletePendingMatch,
+  getMatchmakingTickets,
+  getPendingMatch,
+  saveMatchmakingTicket,
+  savePendingMatch,
+} from "../redis";
+
+// Rating gap accepted between two players: starts at BASE and widens by
+// GROWTH per second of waiting, up to MAX
+const MATCHMAKING_BASE_WINDOW = parseInt(
+  process.env.MATCHMAKING_BASE_WINDOW || "100"
+);
+const MATCHMAKING_WINDOW_GROWTH = parseInt(
+  process.env.MATCHMAKING_WINDOW_GROWTH || "25"
+);
+const MATCHMAKING_MAX_WINDOW = parseInt(
+  process.env.MATCHMAKING_MAX_WINDOW || "1000"
+);
+// Time both paired players have to reach their match's server
+export const MATCH_JOIN_TIMEOUT_MS = parseInt(
+  process.env.MATCH_JOIN_TIMEOUT_MS || "15000"
+);
+
+// A player waiting for a match. The ticket id is their socket id.
+export interface MatchmakingTicket {
+  id: string;
+  serverId: string;
+  playerName: string;
+  accountId: string | null;
+  rating: number;
+  queuedAt: number;
+}
+
+// One side of a pending match. The token, sent only to that player with
+// match-found, is what lets them take the seat.
+export interface MatchSeat {
+  token: string;
+  playerName: string;
+  accountId: string | null;
+  rating: number;
+}
+
+// Two paired players on their way to the room's server
+export interface PendingMatch {
+  room: string;
+  seats: [MatchSeat, MatchSeat];
+  createdAt: number;
+}
+
+const ratingWindow = (ticket: MatchmakingTicket, now: number) =>
+  Math.min(
+    MATCHMAKING_BASE_WINDOW +
+      (MATCHMAKING_WINDOW_GROWTH * (now - ticket.queuedAt)) / 1000,
+    MATCHMAKING_MAX_WINDOW
+  );
+
+// Public matchmaking over a queue shared through Redis. The leader pairs
+// the whole queue: longest waiting first, with the closest rating inside
+// the wider of the two players' windows. Each pair gets a pending match
+// and its room name; both players then reconnect to the server that room
+// routes to, which starts the match once both seats are taken.
+export class MatchmakingService {
+  private readonly serverId: string;
+
+  constructor(serverId: string) {
+    this.serverId = serverId;
+  }
+
+  async enqueue(
+    ticket: Omit<MatchmakingTicket, "serverId" | "queuedAt">
+  ): Promise<MatchmakingTicket> {
+    const queued: MatchmakingTicket = {
+      ...ticket,
+      serverId: this.serverId,
+      queuedAt: Date.now(),
+    };
+    await saveMatchmakingTicket(queued);
+    return queued;
+  }
+
+  // Returns false if the ticket was no longer queued
+  async cancel(ticketId: string): Promise<boolean> {
+    return deleteMatchmakingTicket(ticketId);
+  }
+
+  // Put a paired player back with their original place in the queue, when
+  // their match fell through on the other player's side
+  async requeue(ticket: MatchmakingTicket): Promise<void> {
+    await saveMatchmakingTicket(ticket);
+  }
+
+  // Pair the players waiting on any server and take each pair out of the
+  // queue. Tickets left behind by dead servers are dropped.
+  async findMatches(
+    isServerAlive: (serverId: string) => boolean
+  ): Promise<[MatchmakingTicket, MatchmakingTicket][]> {
+    const tickets: MatchmakingTicket[] = await getMatchmakingTickets();
+    const waiting: MatchmakingTicket[] = [];
+    for (const ticket of tickets) {
+      if (isServerAlive(ticket.serverId)) {
+        waiting.push(ticket);
+      } else {
+        await deleteMatchmakingTicket(ticket.id);
+      }
+    }
+
+    const matches: [MatchmakingTicket, MatchmakingTicket][] = [];
+    for (const [first, second] of this.pair(waiting, Date.now())) {
+      // Cancelled in the meantime: the other one stays queued
+      if (await claimMatchmakingTickets([first.id, second.id])) {
+        matches.push([first, second]);
+      }
+    }
+    return matches;
+  }
+
+  // Seats for a pair, in a new room. Dropped if not filled in time.
+  async createPendingMatch(
+    first: MatchmakingTicket,
+    second: MatchmakingTicket
+  ): Promise<PendingMatch> {
+    const seat = (ticket: MatchmakingTicket): MatchSeat => ({
+      token: randomBytes(16).toString("hex"),
+      playerName: ticket.playerName,
+      accountId: ticket.accountId,
+      rating: ticket.rating,
+    });
+    const match: PendingMatch = {
+      room: `partida-${randomBytes(4).toString("hex")}`,
+      seats: [seat(first), seat(second)],
+      createdAt: Date.now(),
+    };
+    await savePendingMatch(match, MATCH_JOIN_TIMEOUT_MS);
+    return match;
+  }
+
+  // The seat a token was issued for, while its match is still pending
+  async findSeat(roomName: string, token: string): Promise<MatchSeat | null> {
+    const match: PendingMatch | null = await getPendingMatch(roomName);
+    return match?.seats.find((seat) => seat.token === token) ?? null;
+  }
+
+  // Both players are in: the seats can no longer be taken
+  async closeMatch(roomName: string): Promise<void> {
+    await deletePendingMatch(roomName);
+  }
+
+  private pair(
+    tickets: MatchmakingTicket[],
+    now: number
+  ): [MatchmakingTicket, MatchmakingTicket][] {
+    const unpaired = [...tickets].sort((a, b) => a.queuedAt - b.queuedAt);
+    const pairs: [MatchmakingTicket, MatchmakingTicket][] = [];
+
+    while (unpaired.length > 1) {
+      const ticket = unpaired.shift()!;
+      let best: MatchmakingTicket | null = null;
+      for (const other of unpaired) {
+        // The same player queued from two tabs
+        if (other.playerName === ticket.playerName) continue;
+        const gap = Math.abs(ticket.rating - other.rating);
+        const window = Math.max(
+          ratingWindow(ticket, now),
+          ratingWindow(other, now)
+        );
+        if (
+          gap <= window &&
+          (!best || gap < Math.abs(ticket.rating - best.rating))
+        ) {
+          best = other;
+        }
+      }
+      if (best) {
+        unpaired.splice(unpaired.indexOf(best), 1);
+        pairs.push([ticket, best]);
+      }
+    }
+    return pairs;
+  }
+}
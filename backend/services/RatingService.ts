@@ -0,0 +1,106 @@
+import { FinishedMatch } from "../models/Room";
+import {
+  StoredRating,
+  getRatings,
+  getTopRatings,
+  updateRatings,
+} from "../redis";
+
+// Elo: everyone starts at INITIAL_RATING, and a match moves at most
+// RATING_K points from the loser to the winner
+const INITIAL_RATING = 1500;
+const RATING_K = parseInt(process.env.RATING_K || "32");
+const DEFAULT_LEADERBOARD_SIZE = 20;
+const MAX_LEADERBOARD_SIZE = 100;
+
+export type PlayerRating = StoredRating;
+
+export interface LeaderboardEntry extends PlayerRating {
+  rank: number;
+}
+
+export interface RatingChange {
+  accountId: string;
+  username: string;
+  before: number;
+  after: number;
+}
+
+// Chance of `rating` beating `opponent`, from 0 to 1
+const expectedScore = (rating: number, opponent: number) =>
+  1 / (1 + Math.pow(10, (opponent - rating) / 400));
+
+// Ratings of registered players, kept in Redis by account id. Only matches
+// between two accounts count: guests have no identity to rate. Matches won
+// on points change both ratings; forfeits and disconnects only add to the
+// loser's forfeit count.
+export class RatingService {
+  async recordMatch(match: FinishedMatch): Promise<RatingChange[]> {
+    const [first, second] = match.players;
+    if (!first?.accountId || !second?.accountId) return [];
+    if (first.accountId === second.accountId) return [];
+
+    // Computed again from fresh ratings if either player's changed (e.g.
+    // another of their matches was rated on another server meanwhile)
+    let before: number[] = [];
+    const ratings = await updateRatings(
+      [first.accountId, second.accountId],
+      (stored) => {
+        const now = Date.now();
+        const ratings = [first, second].map((player, index): PlayerRating => ({
+          accountId: player.accountId!,
+          wins: 0,
+          losses: 0,
+          forfeits: 0,
+          rating: INITIAL_RATING,
+          ...stored[index],
+          username: player.name, // Account players play under their username
+          updatedAt: now,
+        }));
+        before = ratings.map((rating) => rating.rating);
+        const winnerIndex = first.name === match.winner ? 0 : 1;
+        const winner = ratings[winnerIndex];
+        const loser = ratings[1 - winnerIndex];
+
+        if (match.endReason === "win") {
+          const change = Math.round(
+            RATING_K * (1 - expectedScore(winner.rating, loser.rating))
+          );
+          winner.rating += change;
+          loser.rating -= change;
+          winner.wins++;
+          loser.losses++;
+        } else {
+          loser.forfeits++;
+        }
+        return ratings;
+      }
+    );
+
+    return ratings.map((rating, index) => ({
+      accountId: rating.accountId,
+      username: rating.username,
+      before: before[index],
+      after: rating.rating,
+    }));
+  }
+
+  // Current rating of an account; guests and new accounts start at the
+  // initial rating
+  async getRating(accountId: string | null): Promise<number> {
+    if (!accountId) return INITIAL_RATING;
+    const [stored] = await getRatings([accountId]);
+    return stored?.rating ?? INITIAL_RATING;
+  }
+
+  async getLeaderboard(limit?: unknown): Promise<LeaderboardEntry[]> {
+    const value = typeof limit === "string" ? parseInt(limit) : limit;
+    const size =
+      typeof value === "number" && Number.isInteger(value)
+        ? Math.min(Math.max(value, 1), MAX_LEADERBOARD_SIZE)
+        : DEFAULT_LEADERBOARD_SIZE;
+
+    const ratings: PlayerRating[] = await getTopRatings(size);
+    return ratings.map((rating, index) => ({ ...rating, rank: index + 1 }));
+  }
+}
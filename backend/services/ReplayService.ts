@@ -0,0 +1,44 @@
+import { MatchRecording, ReplayPlayback, playRecording } from "../game/replay";
+import { getReplay, saveReplay } from "../redis";
+import { MatchRecord } from "./MatchHistoryService";
+
+// Replays are much bigger than history entries, so they expire (7 days by
+// default) while the history stays
+const REPLAY_TTL_MS = parseInt(
+  process.env.REPLAY_TTL_MS || String(7 * 24 * 60 * 60 * 1000)
+);
+
+export interface StoredReplay {
+  match: MatchRecord;
+  recording: MatchRecording;
+}
+
+export interface ReplayData extends ReplayPlayback {
+  match: MatchRecord;
+}
+
+// Recordings of finished matches, by match id
+export class ReplayService {
+  async save(match: MatchRecord, recording: MatchRecording): Promise<void> {
+    const replay: StoredReplay = { match, recording };
+    await saveReplay(match.id, replay, REPLAY_TTL_MS);
+  }
+
+  // The recording as stored: seed, starting state and inputs
+  async getRecording(matchId: unknown): Promise<StoredReplay> {
+    if (typeof matchId !== "string" || !matchId) {
+      throw new Error("Partida inválida.");
+    }
+    const replay: StoredReplay | null = await getReplay(matchId);
+    if (!replay) {
+      throw new Error("La repetición no existe o ha caducado.");
+    }
+    return replay;
+  }
+
+  // The recording played back with the current physics, ready to watch
+  async getPlayback(matchId: unknown): Promise<ReplayData> {
+    const { match, recording } = await this.getRecording(matchId);
+    return { match, ...playRecording(recording) };
+  }
+}
@@ -0,0 +1,137 @@
+import { randomUUID } from "node:crypto";
+import {
+  acquireLease,
+  getLeaseHolder,
+  releaseLease,
+  renewLease,
+  roomOwnerKey,
+  roomOwnerTokenKey,
+} from "../redis";
+
+// How long a room lease lasts without renewal, and how often owners renew
+const ROOM_LEASE_TTL_MS = parseInt(process.env.ROOM_LEASE_MS || "3000");
+export const ROOM_LEASE_RENEW_MS = Math.floor(ROOM_LEASE_TTL_MS / 3);
+
+interface OwnedRoom {
+  token: number;
+  expiresAt: number;
+}
+
+// Which server runs the physics of each room. Ownership is a lease in Redis
+// (owner server id + expiry); every term gets a fencing token that is sent
+// along with the owner's game state, so state from a deposed owner can be
+// dropped.
+export class RoomOwnership {
+  private readonly serverId: string;
+  // Unique per process, so a restarted server never renews its old leases
+  private readonly leaseValue: string;
+  private readonly owned: Map<string, OwnedRoom>;
+  // Highest fencing token seen per room, from any server
+  private readonly highestTokens: Map<string, number>;
+
+  constructor(serverId: string) {
+    this.serverId = serverId;
+    this.leaseValue = `${serverId}:${randomUUID()}`;
+    this.owned = new Map();
+    this.highestTokens = new Map();
+  }
+
+  getServerId(): string {
+    return this.serverId;
+  }
+
+  // Only trust a lease until it would have expired on Redis' side
+  isOwner(roomName: string): boolean {
+    const owned = this.owned.get(roomName);
+    return !!owned && Date.now() < owned.expiresAt;
+  }
+
+  getToken(roomName: string): number | null {
+    return this.isOwner(roomName) ? this.owned.get(roomName)!.token : null;
+  }
+
+  getOwnedRoomNames(): string[] {
+    return Array.from(this.owned.keys());
+  }
+
+  // Take the room if nobody owns it or, given `isServerAlive`, if its owner
+  // is a server that is no longer alive (its lease may not have expired
+  // yet). Returns true if we own it afterwards.
+  async claim(
+    roomName: string,
+    isServerAlive?: (serverId: string) => boolean
+  ): Promise<boolean> {
+    if (this.owned.has(roomName)) return this.renew(roomName);
+
+    const startedAt = Date.now();
+    const acquire = () =>
+      acquireLease(
+        roomOwnerKey(roomName),
+        roomOwnerTokenKey(roomName),
+        this.leaseValue,
+        ROOM_LEASE_TTL_MS
+      );
+
+    let token = await acquire();
+    if (!token && isServerAlive) {
+      const holder = await getLeaseHolder(roomOwnerKey(roomName));
+      const ownerId = holder?.slice(0, holder.lastIndexOf(":"));
+      if (holder && ownerId && !isServerAlive(ownerId)) {
+        console.log(`🪦 Evicting dead server ${ownerId} from room ${roomName}`);
+        await releaseLease(roomOwnerKey(roomName), holder);
+        token = await acquire();
+      }
+    }
+    if (!token) return false;
+
+    this.owned.set(roomName, {
+      token,
+      expiresAt: startedAt + ROOM_LEASE_TTL_MS,
+    });
+    this.highestTokens.set(roomName, token);
+    console.log(
+      `🏓 Server ${this.serverId} owns room ${roomName} (fencing token ${token})`
+    );
+    return true;
+  }
+
+  async renew(roomName: string): Promise<boolean> {
+    const owned = this.owned.get(roomName);
+    if (!owned) return false;
+
+    const startedAt = Date.now();
+    const renewed = await renewLease(
+      roomOwnerKey(roomName),
+      this.leaseValue,
+      ROOM_LEASE_TTL_MS
+    );
+    if (renewed) {
+      owned.expiresAt = startedAt + ROOM_LEASE_TTL_MS;
+      return true;
+    }
+
+    console.warn(`⚠️ Server ${this.serverId} lost ownership of ${roomName}`);
+    this.owned.delete(roomName);
+    return false;
+  }
+
+  async release(roomName: string): Promise<void> {
+    if (!this.owned.delete(roomName)) return;
+    await releaseLease(roomOwnerKey(roomName), this.leaseValue);
+  }
+
+  // Whether game state stamped with `token` comes from the room's current
+  // owner. A newer token also means someone else took the room from us.
+  acceptsFencingToken(roomName: string, token: unknown): boolean {
+    if (typeof token !== "number") return false;
+    if (token < (this.highestTokens.get(roomName) ?? 0)) return false;
+    this.highestTokens.set(roomName, token);
+
+    const owned = this.owned.get(roomName);
+    if (owned && owned.token < token) {
+      console.warn(`⚠️ Room ${roomName} was taken over by another server`);
+      this.owned.delete(roomName);
+    }
+    return true;
+  }
+}
@@ -1,39 +1,91 @@
-import { Room } from "../models/Room";
-import { Player } from "../models/Player";
-import { publishRoomMetadata } from "../redis";
+import {
+  FinishedMatch,
+  MAX_INPUT_TICKS,
+  MAX_SNAPSHOT_RATE,
+  MIN_SNAPSHOT_RATE,
+  ROOM_MODES,
+  Room,
+  RoomMode,
+} from "../models/Room";
+import { Player, PlayerRole } from "../models/Player";
+import {
+  TOURNAMENT_FORMATS,
+  Tournament,
+  TournamentFormat,
+} from "../models/Tournament";
+import {
+  ForwardedPaddleInput,
+  deleteGameCheckpoint,
+  getGameCheckpoint,
+  publishPaddleInput,
+  publishRoomMetadata,
+  saveGameCheckpoint,
+} from "../redis";
+import { hashPassword, verifyPassword } from "../passwords";
+import { RoomOwnership } from "./RoomOwnership";
+import { PlayerSession } from "./SessionService";
+import { PaddleInput, TICK_DT, TICK_RATE } from "../game/physics";
+import {
+  DEFAULT_MATCH_RULES,
+  MatchRules,
+  validateMatchRules,
+} from "../game/rules";
+
+// Most ticks the loop will run in one go after the process was stalled
+const MAX_CATCH_UP_TICKS = 4;
+
+// Pause between automatically scheduled matches (tournament, king of the
+// court) so everyone can see the result
+const MATCH_BREAK_MS = 5000;
 
 export class RoomService {
   private readonly rooms: Map<string, Room>;
   private readonly players: Map<string, Player>;
+  private readonly ownership: RoomOwnership;
+  // Rooms whose remote match checkpoint is being fetched
+  private readonly followingMatches: Set<string>;
   private gameLoopInterval: NodeJS.Timeout | null = null;
 
   constructor() {
     this.rooms = new Map();
     this.players = new Map();
+    this.followingMatches = new Set();
+    this.ownership = new RoomOwnership(
+      process.env.SERVER_ID || "default-server"
+    );
     this.startGameLoop();
   }
 
   private startGameLoop(): void {
-    // Run game physics at 120 FPS for smoother gameplay
-    const targetFPS = 120;
-    const frameTime = 1000 / targetFPS;
+    // Physics always advances in fixed TICK_DT steps; the interval only
+    // decides how many ticks are due, so timer jitter never changes the match
     let lastTime = Date.now();
+    let accumulator = 0;
 
     this.gameLoopInterval = setInterval(() => {
       const currentTime = Date.now();
-      const deltaTime = (currentTime - lastTime) / 1000; // Convert to seconds
+      accumulator += (currentTime - lastTime) / 1000; // Convert to seconds
       lastTime = currentTime;
 
-      // Cap deltaTime to prevent large jumps
-      const clampedDeltaTime = Math.min(deltaTime, 1 / 30); // Max 30 FPS step
-
-      // Update all active games
-      for (const room of this.rooms.values()) {
-        if (room.isGameActive && !room.gameState?.winner) {
-          room.updateGamePhysics(clampedDeltaTime);
+      // Cap the backlog to prevent a burst of ticks after a long stall
+      accumulator = Math.min(accumulator, MAX_CATCH_UP_TICKS * TICK_DT);
+
+      while (accumulator >= TICK_DT) {
+        accumulator -= TICK_DT;
+
+        // Update active games this server owns; the rest only relay the
+        // owner's state
+        for (const room of this.rooms.values()) {
+          if (
+            room.isGameActive &&
+            !room.gameState?.winner &&
+            this.ownership.isOwner(room.name)
+          ) {
+            room.updateGamePhysics();
+          }
         }
       }
-    }, frameTime);
+    }, 1000 / TICK_RATE);
   }
 
   async createRoom(
@@ -52,6 +104,9 @@ export class RoomService {
       throw new Error("El nombre del jugador no puede exceder 20 caracteres.");
     }
 
+    // Hash first: nothing below may wait, so no other join can slip in
+    const passwordHash = password ? await hashPassword(password) : null;
+
     if (this.rooms.has(roomName)) {
       throw new Error("Room already exists");
     }
@@ -66,7 +121,7 @@ export class RoomService {
       );
     }
 
-    const room = new Room(roomName, password, hostId, hostName);
+    const room = new Room(roomName, passwordHash, hostId, hostName);
     const host = new Player(hostId, hostName, roomName);
 
     // Ensure host status is set to true
@@ -99,7 +154,9 @@ export class RoomService {
     roomName: string,
     password: string,
     playerId: string,
-    playerName: string
+    playerName: string,
+    role: PlayerRole = "player",
+    session: PlayerSession | null = null
   ): Promise<Room> {
     console.log("RoomService.joinRoom called:", {
       roomName,
@@ -114,43 +171,56 @@ export class RoomService {
         roomName,
         password,
         playerId,
-        playerName
+        playerName,
+        role,
+        session
       );
     }
 
     // Use shared method for normal join logic
-    return this.performNormalJoin(roomName, password, playerId, playerName);
+    return this.performNormalJoin(
+      roomName,
+      password,
+      playerId,
+      session?.playerName ?? playerName,
+      session?.role ?? role,
+      session
+    );
   }
 
-  leaveRoom(playerId: string): void {
+  // Returns the new host if the host left and someone took over. A host
+  // leaving with nobody to take over deletes the room.
+  leaveRoom(playerId: string): Player | null {
     const player = this.players.get(playerId);
     if (!player) {
-      return;
+      return null;
     }
 
     const roomName = player.room;
     const room = this.rooms.get(roomName);
 
     // Check if this is the host leaving
-    const isHostLeaving = player.isHost;
+    const isHostLeaving = player.isHost || room?.hostName === player.name;
+    let newHost: Player | null = null;
 
     if (isHostLeaving) {
-      console.log(
-        `Host ${player.name} (${playerId}) leaving room ${roomName} - deleting room`
-      );
+      console.log(`Host ${player.name} (${playerId}) leaving room ${roomName}`);
 
       // Ensure host status is properly cleaned up
       player.setHost(false);
 
-      // Remove player from room first
+      // Remove player from room first, then hand the room over
       if (room) {
         room.removePlayer(playerId);
+        newHost = this.migrateHost(roomName);
       }
 
-      // Delete the entire room when host leaves
-      this.rooms.delete(roomName);
-
-      console.log(`Room ${roomName} deleted because host left`);
+      if (newHost) {
+        console.log(`Room ${roomName} host migrated to ${newHost.name}`);
+      } else {
+        this.deleteRoom(roomName);
+        console.log(`Room ${roomName} deleted because host left`);
+      }
     } else {
       // Regular player leaving - just remove them from the room
       console.log(
@@ -159,19 +229,31 @@ export class RoomService {
 
       if (room) {
         room.removePlayer(playerId);
+        if (room.successorName === player.name) {
+          room.successorName = null;
+        }
 
-        // Validate room still has correct host assignment if players remain
-        this.validateRoomHostStatus(roomName);
+        if (room.isMatchmade) {
+          // Nobody hosts it; it goes away with its last player
+          if (room.players.size + room.guests.size === 0) {
+            this.deleteRoom(roomName);
+          }
+        } else {
+          // Validate room still has correct host assignment if players remain
+          newHost = this.validateRoomHostStatus(roomName);
+        }
       }
     }
 
     this.players.delete(playerId);
+    return newHost;
   }
 
-  // Validate that a room has exactly one host
-  private validateRoomHostStatus(roomName: string): void {
+  // Validate that a room has exactly one host. Returns the new host if one
+  // had to be picked.
+  private validateRoomHostStatus(roomName: string): Player | null {
     const room = this.rooms.get(roomName);
-    if (!room) return;
+    if (!room) return null;
 
     const allPlayers = [...room.players.values(), ...room.guests.values()];
     const hosts = allPlayers.filter((p) => p.isHost);
@@ -179,24 +261,178 @@ export class RoomService {
     if (hosts.length > 1) {
       console.warn(`Room ${roomName} has ${hosts.length} hosts, cleaning up`);
       this.ensureSingleHost(roomName);
+      const host = allPlayers.find((p) => p.name === room.hostName);
+      host?.setHost(true);
     } else if (hosts.length === 0 && allPlayers.length > 0) {
-      // If no host but players exist, we could optionally assign a new host
-      // For now, just log the situation
-      console.warn(
-        `Room ${roomName} has no host but ${allPlayers.length} players exist`
-      );
+      console.warn(`Room ${roomName} has no host, migrating`);
+      return this.migrateHost(roomName);
+    }
+    return null;
+  }
+
+  // Pick a new host once the current one is gone: the successor the host
+  // chose if they are still here, otherwise whoever has been in the room
+  // longest. Spectators and players who are reconnecting can't host.
+  // Returns null if nobody can.
+  migrateHost(roomName: string): Player | null {
+    const room = this.rooms.get(roomName);
+    if (!room) return null;
+
+    const candidates = [...room.players.values(), ...room.guests.values()]
+      .filter(
+        (player) => player.isActive && !player.isHost && !player.isSpectator()
+      )
+      .sort((a, b) => a.joinedAt - b.joinedAt);
+    const nextHost =
+      candidates.find((player) => player.name === room.successorName) ??
+      candidates[0];
+    if (!nextHost) return null;
+
+    this.assignHost(room, nextHost);
+    return nextHost;
+  }
+
+  // Hand the room over on the host's request
+  transferHost(roomName: string, hostId: string, newHostId: string): Player {
+    const room = this.rooms.get(roomName);
+    if (!room) {
+      throw new Error("Room not found");
+    }
+
+    const host = this.players.get(hostId);
+    if (!host?.isHost || host.room !== roomName) {
+      throw new Error("Unauthorized - Only the host can transfer the room");
+    }
+
+    const newHost = this.getEligibleHost(room, newHostId);
+    if (newHost.id === hostId) {
+      throw new Error("Ya eres el anfitrión");
+    }
+
+    this.assignHost(room, newHost);
+    return newHost;
+  }
+
+  // The host picks who takes over if they leave (null to let the longest
+  // present player take over)
+  setSuccessor(
+    roomName: string,
+    hostId: string,
+    successorId: string | null
+  ): Room {
+    const room = this.rooms.get(roomName);
+    if (!room) {
+      throw new Error("Room not found");
+    }
+
+    const host = this.players.get(hostId);
+    if (!host?.isHost || host.room !== roomName) {
+      throw new Error("Unauthorized - Only the host can choose a successor");
+    }
+
+    room.successorName = successorId
+      ? this.getEligibleHost(room, successorId).name
+      : null;
+    return room;
+  }
+
+  // Host moderation: remove a player from the room (the caller takes them
+  // out), and with `ban` keep them out for the room's lifetime
+  kickPlayer(
+    roomName: string,
+    hostId: string,
+    targetId: string,
+    ban = false
+  ): Player {
+    const room = this.rooms.get(roomName);
+    if (!room) {
+      throw new Error("Room not found");
+    }
+
+    const host = this.players.get(hostId);
+    if (!host?.isHost || host.room !== roomName) {
+      throw new Error("Unauthorized - Only the host can remove players");
+    }
+
+    const target = room.players.get(targetId) ?? room.guests.get(targetId);
+    if (!target) {
+      throw new Error("Jugador no encontrado en la sala");
+    }
+    if (target.id === hostId) {
+      throw new Error("No puedes expulsarte a ti mismo");
+    }
+
+    if (ban) {
+      room.ban(target);
+      this.publishRoomMetadata(roomName);
+    }
+    return target;
+  }
+
+  setRoomLocked(roomName: string, hostId: string, locked: boolean): Room {
+    const room = this.rooms.get(roomName);
+    if (!room) {
+      throw new Error("Room not found");
+    }
+
+    const host = this.players.get(hostId);
+    if (!host?.isHost || host.room !== roomName) {
+      throw new Error("Unauthorized - Only the host can lock the room");
+    }
+
+    room.isLocked = !!locked;
+    this.publishRoomMetadata(roomName);
+    return room;
+  }
+
+  private getEligibleHost(room: Room, playerId: string): Player {
+    const player = room.players.get(playerId) ?? room.guests.get(playerId);
+    if (!player) {
+      throw new Error("Jugador no encontrado en la sala");
+    }
+    if (player.isSpectator()) {
+      throw new Error("Un espectador no puede ser anfitrión");
+    }
+    if (!player.isActive) {
+      throw new Error("Ese jugador se está reconectando");
     }
+    return player;
+  }
+
+  // Make `player` the room's host. The previous host, if still here, stays
+  // on as a guest.
+  private assignHost(room: Room, player: Player): void {
+    this.ensureSingleHost(room.name);
+    for (const previous of Array.from(room.players.values())) {
+      if (previous.id !== player.id) {
+        room.players.delete(previous.id);
+        room.guests.set(previous.id, previous);
+      }
+    }
+
+    player.setHost(true);
+    room.guests.delete(player.id);
+    room.players.set(player.id, player);
+    room.hostId = player.id;
+    room.hostName = player.name;
+    if (room.successorName === player.name) {
+      room.successorName = null;
+    }
+
+    this.publishRoomMetadata(room.name);
   }
 
   startGame(
     roomName: string,
     hostId: string,
-    selectedPlayerIds: string[]
+    selectedPlayerIds: string[],
+    rules?: Partial<MatchRules>
   ): Room {
     console.log("RoomService.startGame called with:", {
       roomName,
       hostId,
       selectedPlayerIds,
+      rules,
     });
 
     const room = this.rooms.get(roomName);
@@ -282,6 +518,17 @@ export class RoomService {
       `Host verification successful for ${requestingPlayer.name} (${requestingPlayer.id})`
     );
 
+    // King of the court: the queue decides who plays, not the selection
+    if (room.mode === "king-of-the-court") {
+      if (room.isGameActive && room.gameState && !room.gameState.winner) {
+        throw new Error("Espera a que termine la partida actual");
+      }
+      if (!this.startNextCourtMatch(room, validateMatchRules(rules))) {
+        throw new Error("Se necesitan al menos 2 jugadores en la cola");
+      }
+      return room;
+    }
+
     const selectedPlayers = selectedPlayerIds
       .map((id) => {
         const player = this.players.get(id);
@@ -299,6 +546,14 @@ export class RoomService {
       throw new Error("Must select exactly 2 players");
     }
 
+    if (room.tournament && !room.tournament.isFinished()) {
+      throw new Error("Hay un torneo en curso en esta sala");
+    }
+
+    if (selectedPlayers.some((player) => player.isSpectator())) {
+      throw new Error("Los espectadores no pueden ser seleccionados para jugar");
+    }
+
     // Validate all selected players are in the room
     for (const player of selectedPlayers) {
       if (player.room !== roomName) {
@@ -306,23 +561,378 @@ export class RoomService {
       }
     }
 
-    room.startGame(selectedPlayers);
+    const matchRules = validateMatchRules(rules);
+
+    room.startGame(selectedPlayers, matchRules);
+    this.claimRoomOwnership(room.name);
+    return room;
+  }
+
+  // Ephemeral room for two players paired by matchmaking: created and
+  // joined like any other, then made hostless and the match started
+  async createMatchRoom(
+    roomName: string,
+    first: { id: string; name: string },
+    second: { id: string; name: string }
+  ): Promise<Room> {
+    const room = await this.createRoom(roomName, "", first.id, first.name);
+    try {
+      await this.joinRoom(roomName, "", second.id, second.name);
+    } catch (error) {
+      // The first player hosts it so far: their leaving deletes it
+      this.leaveRoom(first.id);
+      throw error;
+    }
+
+    room.makeMatchmade();
+    room.startGame(
+      [this.players.get(first.id)!, this.players.get(second.id)!],
+      DEFAULT_MATCH_RULES
+    );
+    this.claimRoomOwnership(roomName);
+    await this.publishRoomMetadata(roomName);
+    return room;
+  }
+
+  // Start a tournament over everyone in the room who is not a spectator.
+  // Matches are then started automatically, one after another.
+  startTournament(
+    roomName: string,
+    hostId: string,
+    format: TournamentFormat,
+    rules?: Partial<MatchRules>
+  ): Room {
+    const room = this.rooms.get(roomName);
+    if (!room) {
+      throw new Error("Room not found");
+    }
+
+    const host = this.players.get(hostId);
+    if (!host?.isHost || host.room !== roomName) {
+      throw new Error("Unauthorized - Only the host can start a tournament");
+    }
+
+    if (room.tournament && !room.tournament.isFinished()) {
+      throw new Error("Ya hay un torneo en curso en esta sala");
+    }
+
+    if (room.mode === "king-of-the-court") {
+      throw new Error(
+        "Cambia al modo de selección del anfitrión para jugar un torneo"
+      );
+    }
+
+    if (room.isGameActive && room.gameState && !room.gameState.winner) {
+      throw new Error("Espera a que termine la partida actual");
+    }
+
+    if (!TOURNAMENT_FORMATS.includes(format)) {
+      throw new Error("Formato de torneo inválido");
+    }
+
+    const entrants = [...room.players.values(), ...room.guests.values()]
+      .filter((player) => !player.isSpectator())
+      .map((player) => ({ id: player.id, name: player.name }));
+    if (entrants.length < 2) {
+      throw new Error("Se necesitan al menos 2 jugadores para un torneo");
+    }
+
+    room.tournament = new Tournament(
+      format,
+      entrants,
+      validateMatchRules(rules)
+    );
+    room.selectedPlayers = [];
+    this.startNextTournamentMatch(room);
+    return room;
+  }
+
+  // Start the next scheduled match of the room's tournament. Returns false
+  // when there is nothing left to play.
+  startNextTournamentMatch(room: Room): boolean {
+    const tournament = room.tournament;
+    if (!tournament) return false;
+
+    let match = tournament.getNextMatch();
+    while (match) {
+      const players = [match.player1, match.player2].map((id) =>
+        id ? this.players.get(id) : undefined
+      );
+      if (players[0] && players[1]) {
+        tournament.startMatch(match.id);
+        room.startGame(players as Player[], tournament.rules);
+        this.claimRoomOwnership(room.name);
+        this.publishRoomMetadata(room.name);
+        return true;
+      }
+
+      // Someone left without the room noticing: they forfeit
+      for (const id of [match.player1, match.player2]) {
+        if (id && !this.players.has(id)) tournament.withdraw(id);
+      }
+      match = tournament.getNextMatch();
+    }
+
+    tournament.nextMatchAt = null;
+    this.publishRoomMetadata(room.name);
+    return false;
+  }
+
+  // Record the winner of the tournament match that just ended, if any.
+  // Returns true when the bracket changed.
+  recordTournamentResult(room: Room): boolean {
+    const tournament = room.tournament;
+    const winner = room.gameState?.winner;
+    if (!tournament?.getCurrentMatch() || !winner) return false;
+
+    tournament.recordResult(
+      winner,
+      { ...room.gameState!.scores },
+      MATCH_BREAK_MS
+    );
+    this.publishRoomMetadata(room.name);
+    return true;
+  }
+
+  // Rooms whose tournament is between matches and due to start the next
+  // one. Only the room's owner runs its tournament; the other servers get
+  // it from the room's metadata.
+  getRoomsWithDueTournamentMatch(now: number): Room[] {
+    return Array.from(this.rooms.values()).filter(
+      (room) =>
+        this.ownership.isOwner(room.name) &&
+        room.tournament?.currentMatchId === null &&
+        room.tournament.nextMatchAt !== null &&
+        room.tournament.nextMatchAt <= now
+    );
+  }
+
+  // Rooms we own with a tournament match in progress
+  getRoomsPlayingTournamentMatch(): Room[] {
+    return Array.from(this.rooms.values()).filter(
+      (room) =>
+        this.ownership.isOwner(room.name) &&
+        room.tournament?.getCurrentMatch() !== undefined
+    );
+  }
+
+  // Switch between host-picked matchups and king of the court (host only)
+  setRoomMode(roomName: string, playerId: string, mode: RoomMode): Room {
+    const room = this.rooms.get(roomName);
+    if (!room) {
+      throw new Error("Room not found");
+    }
+
+    const host = this.players.get(playerId);
+    if (!host?.isHost || host.room !== roomName) {
+      throw new Error("Unauthorized - Only the host can change the room mode");
+    }
+
+    if (!ROOM_MODES.includes(mode)) {
+      throw new Error("Modo de sala inválido");
+    }
+
+    if (room.isGameActive && room.gameState && !room.gameState.winner) {
+      throw new Error("Espera a que termine la partida actual");
+    }
+
+    if (room.tournament && !room.tournament.isFinished()) {
+      throw new Error("Hay un torneo en curso en esta sala");
+    }
+
+    if (mode !== room.mode) {
+      // Everyone who can play joins the queue in the order they arrived
+      const names = [...room.players.values(), ...room.guests.values()]
+        .filter((player) => !player.isSpectator())
+        .map((player) => player.name);
+      room.setMode(mode, names);
+      this.publishRoomMetadata(roomName);
+    }
+    return room;
+  }
+
+  // Host moves players around in the king-of-the-court queue
+  reorderCourtQueue(roomName: string, playerId: string, names: string[]): Room {
+    const room = this.rooms.get(roomName);
+    if (!room) {
+      throw new Error("Room not found");
+    }
+
+    const host = this.players.get(playerId);
+    if (!host?.isHost || host.room !== roomName) {
+      throw new Error("Unauthorized - Only the host can reorder the queue");
+    }
+
+    if (!room.courtQueue) {
+      throw new Error("La sala no está en modo rey de la pista");
+    }
+
+    if (!Array.isArray(names)) {
+      throw new Error("La cola debe contener los mismos jugadores");
+    }
+
+    room.courtQueue.reorder(names);
+    this.publishRoomMetadata(roomName);
     return room;
   }
 
-  updateGame(roomName: string, playerId: string, gameData: any): Room {
+  // Put the next two connected players of the queue on court, with the
+  // given rules or the ones the rotation started with. Returns false (and
+  // stops the rotation) when fewer than two are around.
+  startNextCourtMatch(room: Room, rules?: MatchRules): boolean {
+    const queue = room.courtQueue;
+    if (!queue) return false;
+
+    const findPlayer = (name: string) =>
+      [...room.players.values(), ...room.guests.values()].find(
+        (player) => player.name === name && !player.isSpectator()
+      );
+
+    const court = queue.getNextCourt((name) => findPlayer(name) !== undefined);
+    if (!court) {
+      queue.pause();
+      return false;
+    }
+
+    const matchRules = rules ?? queue.rules ?? DEFAULT_MATCH_RULES;
+    queue.startMatch(court, matchRules);
+    room.startGame(court.map(findPlayer) as Player[], matchRules);
+    this.claimRoomOwnership(room.name);
+    this.publishRoomMetadata(room.name);
+    return true;
+  }
+
+  // Rotate the queue once the game on court has a winner. Returns true when
+  // the queue changed.
+  recordCourtResult(room: Room): boolean {
+    const queue = room.courtQueue;
+    const gameState = room.gameState;
+    if (!queue?.matchInProgress || !gameState?.winner) return false;
+
+    const winner = gameState.players.find((p) => p.id === gameState.winner);
+    const loser = gameState.players.find((p) => p.id !== gameState.winner);
+    if (!winner || !loser) return false;
+
+    queue.recordResult(winner.name, loser.name, MATCH_BREAK_MS);
+    this.publishRoomMetadata(room.name);
+    return true;
+  }
+
+  // Matches decided on this server since the last call, from every room
+  takeFinishedMatches(): FinishedMatch[] {
+    return Array.from(this.rooms.values()).flatMap((room) =>
+      room.takeFinishedMatches()
+    );
+  }
+
+  // King-of-the-court rooms we own with a game on court. Like tournaments,
+  // the rotation is only run by the room's owner.
+  getRoomsPlayingCourtMatch(): Room[] {
+    return Array.from(this.rooms.values()).filter(
+      (room) =>
+        this.ownership.isOwner(room.name) &&
+        room.courtQueue?.matchInProgress === true
+    );
+  }
+
+  // King-of-the-court rooms we own whose break is over
+  getRoomsWithDueCourtMatch(now: number): Room[] {
+    return Array.from(this.rooms.values()).filter(
+      (room) =>
+        this.ownership.isOwner(room.name) &&
+        !!room.courtQueue &&
+        room.courtQueue.nextMatchAt !== null &&
+        room.courtQueue.nextMatchAt <= now
+    );
+  }
+
+  // Apply a paddle input from a player. The server only ever moves the
+  // sender's own paddle; physics clamps it to the field and caps its speed.
+  // Inputs for a match another server runs are forwarded to it.
+  applyPaddleInput(
+    roomName: string,
+    playerId: string,
+    input: { direction?: number; target?: number; ticks?: number },
+    sequence: number
+  ): Room {
     const room = this.rooms.get(roomName);
-    if (!room?.isGameActive) {
+    if (!room?.isGameActive || !room.gameState) {
       throw new Error("Game not active");
     }
 
-    // Only update paddles from client, physics handled server-side
-    if (gameData.paddles) {
-      room.gameState!.paddles = gameData.paddles;
+    // By name: the match may have been started where this socket is unknown
+    const player = this.players.get(playerId);
+    const side = player ? room.getPlayerSideByName(player.name) : null;
+    if (!player || !side) {
+      throw new Error("Solo los jugadores de la partida pueden mover paletas");
+    }
+
+    const { paddleInput, ticks } = this.parsePaddleInput(input, sequence);
+    if (this.ownership.isOwner(roomName)) {
+      room.queuePaddleInput(side, paddleInput, sequence, ticks);
+    } else {
+      publishPaddleInput(roomName, {
+        playerName: player.name,
+        input: { ...paddleInput, ticks },
+        sequence,
+      });
     }
     return room;
   }
 
+  // A paddle input forwarded by the server its player is connected to.
+  // Only the owner queues it, checked again as if it came from a socket.
+  applyForwardedPaddleInput(
+    roomName: string,
+    forwarded: ForwardedPaddleInput
+  ): void {
+    const room = this.rooms.get(roomName);
+    if (!room?.gameState || !this.ownership.isOwner(roomName)) return;
+
+    const side = room.getPlayerSideByName(forwarded.playerName);
+    if (!side) return;
+
+    const { paddleInput, ticks } = this.parsePaddleInput(
+      forwarded.input ?? {},
+      forwarded.sequence
+    );
+    room.queuePaddleInput(side, paddleInput, forwarded.sequence, ticks);
+  }
+
+  private parsePaddleInput(
+    input: { direction?: number; target?: number; ticks?: number },
+    sequence: number
+  ): { paddleInput: PaddleInput; ticks: number } {
+    if (!Number.isInteger(sequence) || sequence < 0) {
+      throw new Error("Número de secuencia de entrada inválido");
+    }
+
+    let paddleInput: PaddleInput;
+    if (input.target !== undefined) {
+      if (typeof input.target !== "number" || !Number.isFinite(input.target)) {
+        throw new Error("Posición objetivo de la paleta inválida");
+      }
+      paddleInput = { target: input.target };
+    } else if (
+      input.direction === -1 ||
+      input.direction === 0 ||
+      input.direction === 1
+    ) {
+      paddleInput = { direction: input.direction };
+    } else {
+      throw new Error("Dirección de la paleta inválida");
+    }
+
+    const ticks = input.ticks ?? 1;
+    if (!Number.isInteger(ticks) || ticks < 1 || ticks > MAX_INPUT_TICKS) {
+      throw new Error(
+        `Cada entrada debe cubrir entre 1 y ${MAX_INPUT_TICKS} ticks`
+      );
+    }
+
+    return { paddleInput, ticks };
+  }
+
   restartGame(roomName: string, playerId: string): Room {
     const room = this.rooms.get(roomName);
     if (!room) {
@@ -334,28 +944,10 @@ export class RoomService {
       throw new Error("Player not found");
     }
 
-    // Constant high speed with random direction towards opponents (compensating for deltaTime)
-    // Angles around 45° towards players: 30°-60° and 120°-150°
-    const isTowardsPlayer1 = Math.random() < 0.5;
-    let angle;
-    if (isTowardsPlayer1) {
-      angle = Math.PI / 6 + Math.random() * (Math.PI / 6); // 30° to 60°
-    } else {
-      angle = (Math.PI * 2) / 3 + Math.random() * (Math.PI / 6); // 120° to 150°
-    }
-    const speed = 800; // High speed (compensates for 60 FPS deltaTime ~0.0167)
-    const vx = Math.cos(angle) * speed;
-    const vy = Math.sin(angle) * speed;
-
-    // Reset game state but keep players
-    room.gameState = {
-      players: room.gameState?.players || [],
-      scores: { player1: 0, player2: 0 },
-      ball: { x: 400, y: 300, vx, vy },
-      paddles: { player1: 250, player2: 250 },
-      winner: null,
-    };
-    room.isGameActive = true;
+    // Reset game state but keep players and rules (fresh seed for the new match)
+    const rules = room.gameState?.rules || DEFAULT_MATCH_RULES;
+    room.startGame(room.gameState?.players || [], rules);
+    this.claimRoomOwnership(room.name);
 
     return room;
   }
@@ -370,6 +962,11 @@ export class RoomService {
     if (!player) {
       throw new Error("Player not found");
     }
+    // Ending a match that is still being played would leave it unrecorded
+    // and unrated; players who want out forfeit by leaving
+    if (room.gameState && !room.gameState.winner) {
+      throw new Error("La partida sigue en juego.");
+    }
 
     // Reset game state and go back to lobby
     room.gameState = null;
@@ -394,16 +991,224 @@ export class RoomService {
     }
   }
 
+  // Lower or raise how often game-update is sent to a room (host only).
+  // Physics keeps running at the fixed tick rate either way.
+  setSnapshotRate(roomName: string, playerId: string, rate: number): Room {
+    const room = this.rooms.get(roomName);
+    if (!room) {
+      throw new Error("Room not found");
+    }
+
+    const player = this.players.get(playerId);
+    if (!player?.isHost || player.room !== roomName) {
+      throw new Error("Unauthorized - Only the host can change the update rate");
+    }
+
+    if (
+      !Number.isInteger(rate) ||
+      rate < MIN_SNAPSHOT_RATE ||
+      rate > MAX_SNAPSHOT_RATE
+    ) {
+      throw new Error(
+        `La frecuencia debe estar entre ${MIN_SNAPSHOT_RATE} y ${MAX_SNAPSHOT_RATE} Hz`
+      );
+    }
+
+    room.snapshotRate = rate;
+    return room;
+  }
+
   getRoom(roomName: string): Room | undefined {
     return this.rooms.get(roomName);
   }
 
+  // Rooms with a game in progress (model instances, not JSON)
+  getActiveGameRooms(): Room[] {
+    return Array.from(this.rooms.values()).filter(
+      (room) => room.isGameActive && room.gameState
+    );
+  }
+
   getPlayer(playerId: string): Player | undefined {
     return this.players.get(playerId);
   }
 
+  // Names are unique within a room, and survive a reconnect
+  findPlayerByName(roomName: string, playerName: string): Player | undefined {
+    return Array.from(this.players.values()).find(
+      (player) => player.room === roomName && player.name === playerName
+    );
+  }
+
   deleteRoom(roomName: string): void {
     this.rooms.delete(roomName);
+    if (this.ownership.isOwner(roomName)) {
+      deleteGameCheckpoint(roomName);
+    }
+    this.ownership.release(roomName).catch((error) => {
+      console.error(`Failed to release ownership of ${roomName}:`, error);
+    });
+  }
+
+  isRoomOwner(roomName: string): boolean {
+    return this.ownership.isOwner(roomName);
+  }
+
+  getRoomOwnerToken(roomName: string): number | null {
+    return this.ownership.getToken(roomName);
+  }
+
+  // Whether game state received from another server should be applied
+  acceptRemoteGameState(roomName: string, fencingToken: unknown): boolean {
+    return this.ownership.acceptsFencingToken(roomName, fencingToken);
+  }
+
+  // Start running a match here: take the room's lease in Redis. Physics only
+  // steps once the lease is ours. The match is checkpointed right away, for
+  // the other servers to follow it from (see followRemoteMatch).
+  private claimRoomOwnership(roomName: string): void {
+    this.ownership
+      .claim(roomName)
+      .then(async (owned) => {
+        if (!owned) {
+          console.warn(`⚠️ Room ${roomName} is owned by another server`);
+          return;
+        }
+        const room = this.rooms.get(roomName);
+        const token = this.ownership.getToken(roomName);
+        if (room?.gameState && token !== null) {
+          await saveGameCheckpoint(roomName, room.gameState, token);
+        }
+      })
+      .catch((error) => {
+        console.error(`Failed to claim ownership of ${roomName}:`, error);
+      });
+  }
+
+  // Start following a match another server owns: its snapshots only carry
+  // what changes every tick, the rest comes from its checkpoint. Null if
+  // the checkpoint of the match that started at `startedAt` is not written
+  // yet, or the room is gone.
+  async followRemoteMatch(
+    roomName: string,
+    startedAt: number
+  ): Promise<Room | null> {
+    if (this.followingMatches.has(roomName)) return null;
+
+    this.followingMatches.add(roomName);
+    try {
+      const checkpoint = await getGameCheckpoint(roomName);
+      const room = this.rooms.get(roomName);
+      if (!room || checkpoint?.gameState?.startedAt !== startedAt) {
+        return null;
+      }
+      room.followRemoteMatch(checkpoint.gameState);
+      return room;
+    } finally {
+      this.followingMatches.delete(roomName);
+    }
+  }
+
+  // Renew the leases of rooms we own, checkpoint their matches to Redis and
+  // drop the ones no longer playing or scheduling matches. Rooms restored
+  // from a checkpoint try to take over the match; with `adoptOrphans` (the
+  // leader) so do matches relayed from an owner that stopped renewing or
+  // that `isServerAlive` says is dead. Returns the rooms taken over, now
+  // paused until their players are back. A tournament or rotation left
+  // without an owner between matches goes to a server its players are
+  // connected to.
+  async maintainRoomOwnership(
+    adoptOrphans: boolean,
+    isServerAlive: (serverId: string) => boolean
+  ): Promise<Room[]> {
+    for (const roomName of this.ownership.getOwnedRoomNames()) {
+      const room = this.rooms.get(roomName);
+      if (!room || (!room.isGameActive && !room.hasUpcomingMatch())) {
+        await deleteGameCheckpoint(roomName);
+        await this.ownership.release(roomName);
+        continue;
+      }
+
+      const token = (await this.ownership.renew(roomName))
+        ? this.ownership.getToken(roomName)
+        : null;
+      if (token === null) continue;
+
+      if (room.gameState && !room.gameState.winner) {
+        await saveGameCheckpoint(roomName, room.gameState, token);
+      } else {
+        await deleteGameCheckpoint(roomName);
+      }
+    }
+
+    const takenOver: Room[] = [];
+    for (const room of this.rooms.values()) {
+      if (
+        room.isGameActive &&
+        room.gameState &&
+        !room.gameState.winner &&
+        (adoptOrphans || room.pause) &&
+        !this.ownership.isOwner(room.name) &&
+        (await this.ownership.claim(room.name, isServerAlive))
+      ) {
+        console.log(`🔁 Took over match in room ${room.name}`);
+        if (!room.pause) {
+          // Snapshots relayed here lack the rng state and match stats: go
+          // on from the old owner's last checkpoint of this match
+          const checkpoint = await getGameCheckpoint(room.name);
+          if (
+            checkpoint?.gameState?.startedAt === room.gameState.startedAt
+          ) {
+            room.restoreCheckpoint(checkpoint.gameState);
+          } else {
+            room.pauseForReconnect();
+          }
+        }
+        takenOver.push(room);
+      } else if (
+        room.hasUpcomingMatch() &&
+        (!room.isGameActive || !!room.gameState?.winner) &&
+        this.hasLocalPlayers(room.name) &&
+        !this.ownership.isOwner(room.name) &&
+        (await this.ownership.claim(room.name, isServerAlive))
+      ) {
+        console.log(`🔁 Took over the schedule of room ${room.name}`);
+      }
+    }
+    return takenOver;
+  }
+
+  private hasLocalPlayers(roomName: string): boolean {
+    return Array.from(this.players.values()).some(
+      (player) => player.room === roomName
+    );
+  }
+
+  // Keep a player whose connection dropped (they can come back with their
+  // session) until `deadline`. A match they were playing is paused.
+  markDisconnected(playerId: string, deadline: number): Room | undefined {
+    const player = this.players.get(playerId);
+    if (!player) return undefined;
+
+    player.markDisconnected(deadline);
+    const room = this.rooms.get(player.room);
+    room?.pauseForDisconnect(player, deadline);
+    return room;
+  }
+
+  // Disconnected players whose reconnection window has closed
+  getExpiredDisconnects(now: number): Player[] {
+    return Array.from(this.players.values()).filter(
+      (player) =>
+        !player.isActive &&
+        player.reconnectDeadline !== null &&
+        player.reconnectDeadline <= now
+    );
+  }
+
+  // Paused matches, to resume once their countdown is over
+  getPausedRooms(): Room[] {
+    return Array.from(this.rooms.values()).filter((room) => room.pause);
   }
 
   getAllRooms(): any[] {
@@ -425,7 +1230,7 @@ export class RoomService {
     // Create room with original host information
     const room = new Room(
       roomName,
-      metadata.password || "",
+      metadata.passwordHash ?? null,
       metadata.hostId,
       metadata.hostName
     );
@@ -433,6 +1238,13 @@ export class RoomService {
     // Add the room to the service
     this.addRoomFromMetadata(roomName, room);
 
+    if (metadata.mode) {
+      room.applyCourtQueue(metadata.mode, metadata.courtQueue);
+    }
+    room.applyModeration(metadata);
+    room.applyTournament(metadata.tournament);
+    room.isMatchmade = !!metadata.isMatchmade;
+
     // Restore game state if it was active
     if (metadata.isGameActive && metadata.selectedPlayers) {
       room.isGameActive = metadata.isGameActive;
@@ -453,9 +1265,16 @@ export class RoomService {
       name: room.name,
       hostName: room.hostName,
       hostId: room.hostId,
-      password: room.password,
+      passwordHash: room.passwordHash, // Never the password itself
       isGameActive: room.isGameActive,
       selectedPlayers: room.selectedPlayers,
+      mode: room.mode,
+      courtQueue: room.courtQueue,
+      isLocked: room.isLocked,
+      bannedNames: room.bannedNames,
+      bannedSessionIds: room.bannedSessionIds,
+      isMatchmade: room.isMatchmade,
+      tournament: room.tournament,
     };
 
     try {
@@ -490,13 +1309,16 @@ export class RoomService {
     }
   }
 
-  // Shared method for normal room joining (used by both join methods)
-  private performNormalJoin(
+  // Shared method for normal room joining (used by both join methods).
+  // `session` is set when the player resumed a session issued for this room.
+  private async performNormalJoin(
     roomName: string,
     password: string,
     playerId: string,
-    playerName: string
-  ): Room {
+    playerName: string,
+    role: PlayerRole,
+    session: PlayerSession | null = null
+  ): Promise<Room> {
     // Validate player name length
     if (playerName.length > 20) {
       throw new Error("El nombre del jugador no puede exceder 20 caracteres.");
@@ -507,25 +1329,71 @@ export class RoomService {
       throw new Error("Sala no encontrada");
     }
 
-    // Check password
-    if (room.password && room.password !== password) {
+    // Check password (a session was only issued after passing it). The only
+    // wait in here, so everything below sees the room as it is now.
+    if (
+      !session &&
+      room.passwordHash &&
+      !(await verifyPassword(password, room.passwordHash))
+    ) {
       throw new Error("Contraseña incorrecta");
     }
+    if (this.rooms.get(roomName) !== room) {
+      throw new Error("Sala no encontrada");
+    }
+
+    if (room.isBanned(playerName, session?.id ?? null)) {
+      throw new Error("Has sido expulsado de esta sala");
+    }
+
+    // Players coming back with their session still get into a locked room
+    if (!session && room.isLocked) {
+      throw new Error("La sala está cerrada");
+    }
+
+    // After a failover the host's name and the names the paused match waits
+    // for can only be taken back with their session, not by typing them
+    if (!session && this.isNameReserved(room, playerName)) {
+      throw new Error(
+        "El nombre de jugador está reservado para quien lo usaba en esta sala."
+      );
+    }
 
     // Strict rule: Check if player name is already taken by ANY player
     const conflictingPlayer = Array.from(this.players.values()).find(
       (p) => p.name === playerName && p.id !== playerId
     );
 
-    if (conflictingPlayer) {
+    let previousJoinedAt: number | null = null;
+    if (
+      conflictingPlayer &&
+      session &&
+      conflictingPlayer.sessionId === session.id
+    ) {
+      // The same player back under a new socket: drop the old entry and
+      // carry their selection over
+      room.forgetPlayer(conflictingPlayer.id);
+      this.players.delete(conflictingPlayer.id);
+      room.selectedPlayers = room.selectedPlayers.map((id) =>
+        id === conflictingPlayer.id ? playerId : id
+      );
+      previousJoinedAt = conflictingPlayer.joinedAt;
+    } else if (conflictingPlayer) {
       throw new Error(
         "El nombre de jugador ya está en uso. Por favor, elige otro nombre."
       );
     }
 
-    const player = new Player(playerId, playerName, roomName);
-
+    // The original host always comes back as a player, whatever they asked
+    // for. Safe to tell by name: only their session can take it.
     const isOriginalHost = room.hostName === playerName;
+    const player = new Player(
+      playerId,
+      playerName,
+      roomName,
+      isOriginalHost ? "player" : role
+    );
+
     if (isOriginalHost) {
       // Ensure only one host by removing host status from all others
       this.ensureSingleHost(roomName);
@@ -534,21 +1402,44 @@ export class RoomService {
       player.setHost(true);
       room.addPlayer(playerId, player);
     } else {
-      // Add as guest (regular player) - never set as host
+      // Add as guest (regular player or spectator) - never set as host
       player.setHost(false);
       room.addGuest(playerId, player);
     }
 
+    if (!player.isSpectator()) {
+      room.courtQueue?.add(playerName);
+    }
+    room.rejoinMatch(player);
+    // Only their session proves an entrant is back, not their name
+    if (session) {
+      room.tournament?.rebindEntrant(playerName, playerId);
+    }
+
+    player.sessionId = session?.id ?? null;
+    // Coming back keeps their seniority for host migration
+    if (previousJoinedAt !== null) {
+      player.joinedAt = previousJoinedAt;
+    }
     this.players.set(playerId, player);
     return room;
   }
 
+  private isNameReserved(room: Room, playerName: string): boolean {
+    return (
+      playerName === room.hostName ||
+      !!room.pause?.waitingFor.includes(playerName)
+    );
+  }
+
   // Create room with host restoration enabled (new strategy)
   private async createRoomWithHostRestoration(
     roomName: string,
     password: string,
     playerId: string,
-    playerName: string
+    playerName: string,
+    role: PlayerRole,
+    session: PlayerSession | null
   ): Promise<Room> {
     if (this.rooms.has(roomName)) {
       throw new Error("La sala ya existe");
@@ -563,19 +1454,52 @@ export class RoomService {
     }
 
     // Create room with ORIGINAL host information from Redis
-    // This preserves Alice's host status, not Bob's
+    // This preserves Alice's host status, not Bob's. The joining player's
+    // password is checked against the original hash below.
     const room = new Room(
       roomName,
-      password,
+      redisMetadata.passwordHash ?? null,
       redisMetadata.hostId, // Alice's original socket ID
       redisMetadata.hostName // Alice's original name
     );
 
-    // Add the current player (Bob) as a guest initially
-    const player = new Player(playerId, playerName, roomName);
-    room.addGuest(playerId, player);
+    // Keep the room mode and the king-of-the-court queue from before
+    if (redisMetadata.mode) {
+      room.applyCourtQueue(redisMetadata.mode, redisMetadata.courtQueue);
+    }
+    // Same for the lock and bans, and the tournament
+    room.applyModeration(redisMetadata);
+    room.applyTournament(redisMetadata.tournament);
+    room.isMatchmade = !!redisMetadata.isMatchmade;
+
     this.rooms.set(roomName, room);
-    this.players.set(playerId, player);
+
+    // A match was in progress on the server that went down: pick it up from
+    // its last checkpoint, paused until both players are back
+    const checkpoint = await getGameCheckpoint(roomName);
+    if (checkpoint?.gameState && !checkpoint.gameState.winner) {
+      room.restoreCheckpoint(checkpoint.gameState);
+      console.log(
+        `♻️ Restored match in room ${roomName} from checkpoint`,
+        { tick: checkpoint.gameState.tick, scores: checkpoint.gameState.scores }
+      );
+    }
+
+    // Then the current player joins as anyone else would: the host and the
+    // players of the match get their place back through their session
+    try {
+      await this.performNormalJoin(
+        roomName,
+        password,
+        playerId,
+        playerName,
+        role,
+        session
+      );
+    } catch (error) {
+      this.rooms.delete(roomName);
+      throw error;
+    }
 
     try {
       await this.publishRoomMetadata(roomName);
@@ -591,32 +1515,37 @@ export class RoomService {
     roomName: string,
     password: string,
     playerId: string,
-    playerName: string
+    playerName: string,
+    role: PlayerRole = "player",
+    session: PlayerSession | null = null
   ): Promise<Room> {
+    // A resumed session decides who the player is
+    if (session) {
+      playerName = session.playerName;
+      role = session.role;
+    }
+
     const localRoom = this.rooms.get(roomName);
 
     if (localRoom) {
       // Room exists locally, proceed with normal join logic using the shared method
-      return this.performNormalJoin(roomName, password, playerId, playerName);
+      return this.performNormalJoin(
+        roomName,
+        password,
+        playerId,
+        playerName,
+        role,
+        session
+      );
     }
 
+    // Check if room metadata exists in Redis (indicating it exists on
+    // another server). Only a failed check gets the generic message: join
+    // errors below (banned, locked, wrong password...) reach the player as
+    // they are.
+    let redisRoomExists: boolean;
     try {
-      // Check if room metadata exists in Redis (indicating it exists on another server)
-      const redisRoomExists = await this.checkRoomExistsInRedis(roomName);
-
-      if (redisRoomExists) {
-        // Create the room and then restore host status based on name
-        const createdRoom = await this.createRoomWithHostRestoration(
-          roomName,
-          password,
-          playerId,
-          playerName
-        );
-
-        return createdRoom;
-      } else {
-        return await this.createRoom(roomName, password, playerId, playerName);
-      }
+      redisRoomExists = await this.checkRoomExistsInRedis(roomName);
     } catch (error) {
       throw new Error(
         "Unable to verify room existence due to network issues. " +
@@ -624,57 +1553,40 @@ export class RoomService {
           "please try again in a few moments or contact support."
       );
     }
+
+    // Spectators can only watch rooms that exist, never create one
+    if (role === "spectator" && !redisRoomExists) {
+      throw new Error("Sala no encontrada");
+    }
+
+    if (redisRoomExists) {
+      // Create the room and then restore host status based on name
+      return this.createRoomWithHostRestoration(
+        roomName,
+        password,
+        playerId,
+        playerName,
+        role,
+        session
+      );
+    }
+    return this.createRoom(roomName, password, playerId, playerName);
   }
 
-  // Check if room metadata exists in Redis
+  // Check if room metadata exists in Redis; throws if Redis can't tell
   private async checkRoomExistsInRedis(roomName: string): Promise<boolean> {
-    try {
-      // Import the Redis check function
-      const { checkRoomMetadataExists } = require("../redis");
-      return await checkRoomMetadataExists(roomName);
-    } catch (error) {
-      console.error("Error checking Redis for room:", error);
-      return false;
-    }
+    // Import the Redis check function
+    const { checkRoomMetadataExists } = require("../redis");
+    return await checkRoomMetadataExists(roomName);
   }
 
-  // Force cleanup function for problematic scenarios
+  // Force cleanup function for problematic scenarios. Hosts removed here
+  // hand their room over like any host leaving.
   forceCleanupPlayer(playerId: string, playerName: string): void {
     // Remove the specific player
     if (this.players.has(playerId)) {
-      const player = this.players.get(playerId)!;
-      const roomName = player.room;
-      const isHostBeingCleanedUp = player.isHost;
-
-      // Validate and handle host status cleanup
-      if (isHostBeingCleanedUp) {
-        console.log(
-          `Force cleanup: Host ${playerName} (${playerId}) being removed from room ${roomName} - deleting room`
-        );
-        player.setHost(false);
-
-        // Ensure host status is cleaned up in the room
-        this.ensureSingleHost(roomName);
-      }
-
-      this.players.delete(playerId);
-
-      // Also remove from their room if they have one
-      const room = this.rooms.get(roomName);
-      if (room) {
-        room.removePlayer(playerId);
-
-        if (isHostBeingCleanedUp) {
-          // Delete the entire room when host is force cleaned up
-          this.rooms.delete(roomName);
-          console.log(
-            `Room ${roomName} deleted because host was force cleaned up`
-          );
-        } else {
-          // Validate room host status after cleanup
-          this.validateRoomHostStatus(roomName);
-        }
-      }
+      console.log(`Force cleanup: removing ${playerName} (${playerId})`);
+      this.leaveRoom(playerId);
     }
 
     // Also check for any other players with the same name and remove them
@@ -687,35 +1599,8 @@ export class RoomService {
         `Force cleanup: Found ${playersWithSameName.length} duplicate players with name ${playerName}, removing them`
       );
 
-      playersWithSameName.forEach(([id, player]) => {
-        const roomName = player.room;
-        const isDuplicateHost = player.isHost;
-
-        // Handle host status for duplicates
-        if (isDuplicateHost) {
-          console.log(
-            `Force cleanup: Duplicate host ${playerName} (${id}) being removed from room ${roomName} - deleting room`
-          );
-          player.setHost(false);
-          this.ensureSingleHost(roomName);
-        }
-
-        this.players.delete(id);
-
-        const room = this.rooms.get(roomName);
-        if (room) {
-          room.removePlayer(id);
-
-          if (isDuplicateHost) {
-            // Delete the entire room when duplicate host is force cleaned up
-            this.rooms.delete(roomName);
-            console.log(
-              `Room ${roomName} deleted because duplicate host was force cleaned up`
-            );
-          } else {
-            this.validateRoomHostStatus(roomName);
-          }
-        }
+      playersWithSameName.forEach(([id]) => {
+        this.leaveRoom(id);
       });
     }
   }
@@ -0,0 +1,196 @@
+import { pub, sub } from "../redis";
+
+const SERVERS_KEY = "servers";
+const serverKey = (serverId: string) => `server:${serverId}`;
+const MEMBERSHIP_CHANNEL = "server-membership";
+
+// A server that misses heartbeats for this long is considered dead
+const HEARTBEAT_TTL_MS = parseInt(process.env.HEARTBEAT_TTL_MS || "6000");
+const HEARTBEAT_INTERVAL_MS = Math.floor(HEARTBEAT_TTL_MS / 3);
+
+export interface ServerInfo {
+  id: string;
+  address: string;
+  load: number; // Connected sockets
+  roomCount: number;
+  version: string;
+  startedAt: number;
+  lastHeartbeat: number;
+}
+
+export interface ServerStats {
+  load: number;
+  roomCount: number;
+}
+
+export type MembershipEvent = "joined" | "expired";
+
+export type MembershipListener = (
+  event: MembershipEvent,
+  peer: ServerInfo
+) => void;
+
+// Which servers are alive. Every server keeps a heartbeat key in Redis that
+// expires unless refreshed, and watches the others' to know its peers.
+export class ServerRegistry {
+  private readonly serverId: string;
+  private readonly address: string;
+  private readonly version: string;
+  private readonly startedAt: number;
+  private readonly peers: Map<string, ServerInfo>;
+  private self: ServerInfo | null = null;
+  private readonly listeners: MembershipListener[] = [];
+  private getStats: () => ServerStats = () => ({ load: 0, roomCount: 0 });
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(serverId: string, address: string, version: string) {
+    this.serverId = serverId;
+    this.address = address;
+    this.version = version;
+    this.startedAt = Date.now();
+    this.peers = new Map();
+  }
+
+  async start(getStats: () => ServerStats): Promise<void> {
+    this.getStats = getStats;
+
+    await sub.subscribe(MEMBERSHIP_CHANNEL, (message: string) => {
+      try {
+        const data = JSON.parse(message);
+        if (data.serverId === this.serverId) return;
+
+        if (data.type === "left") {
+          this.expirePeer(data.serverId);
+        } else {
+          this.refreshPeers().catch((error) => {
+            console.error("Failed to refresh server peers:", error);
+          });
+        }
+      } catch (error) {
+        console.error("Failed to parse server membership message:", error);
+      }
+    });
+
+    await this.heartbeat();
+    await this.announce("joined");
+    await this.refreshPeers();
+
+    this.timer = setInterval(() => {
+      this.heartbeat()
+        .then(() => this.refreshPeers())
+        .catch((error) => {
+          console.error("Server heartbeat failed:", error);
+        });
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  // Leave the registry right away instead of waiting for the heartbeat to
+  // expire
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    try {
+      await pub.del(serverKey(this.serverId));
+      await pub.sRem(SERVERS_KEY, this.serverId);
+      await this.announce("left");
+    } catch (error) {
+      console.error("Failed to leave the server registry:", error);
+    }
+  }
+
+  getServerId(): string {
+    return this.serverId;
+  }
+
+  // Live peers, not including this server
+  getPeers(): ServerInfo[] {
+    return Array.from(this.peers.values());
+  }
+
+  // Every live server, this one included (as of its last heartbeat)
+  getMembers(): ServerInfo[] {
+    return this.self ? [this.self, ...this.getPeers()] : this.getPeers();
+  }
+
+  isAlive(serverId: string): boolean {
+    return serverId === this.serverId || this.peers.has(serverId);
+  }
+
+  onMembershipChange(listener: MembershipListener): void {
+    this.listeners.push(listener);
+  }
+
+  private async heartbeat(): Promise<void> {
+    const info: ServerInfo = {
+      id: this.serverId,
+      address: this.address,
+      version: this.version,
+      startedAt: this.startedAt,
+      lastHeartbeat: Date.now(),
+      ...this.getStats(),
+    };
+    this.self = info;
+    // Key first, so a peer never sees the id without its info
+    await pub.set(serverKey(this.serverId), JSON.stringify(info), {
+      PX: HEARTBEAT_TTL_MS,
+    });
+    await pub.sAdd(SERVERS_KEY, this.serverId);
+  }
+
+  private async announce(type: "joined" | "left"): Promise<void> {
+    await pub.publish(
+      MEMBERSHIP_CHANNEL,
+      JSON.stringify({ type, serverId: this.serverId, timestamp: Date.now() })
+    );
+  }
+
+  // Read every registered server's heartbeat and diff against the peers we
+  // knew about
+  private async refreshPeers(): Promise<void> {
+    const ids = (await pub.sMembers(SERVERS_KEY)).filter(
+      (id) => id !== this.serverId
+    );
+    const heartbeats = ids.length > 0 ? await pub.mGet(ids.map(serverKey)) : [];
+
+    const alive = new Set<string>();
+    for (const [index, id] of ids.entries()) {
+      const heartbeat = heartbeats[index];
+      if (!heartbeat) {
+        // Heartbeat expired: drop the id from the set too
+        await pub.sRem(SERVERS_KEY, id);
+        continue;
+      }
+
+      const info: ServerInfo = JSON.parse(heartbeat);
+      alive.add(id);
+      const isNew = !this.peers.has(id);
+      this.peers.set(id, info);
+      if (isNew) this.notify("joined", info);
+    }
+
+    for (const id of this.peers.keys()) {
+      if (!alive.has(id)) this.expirePeer(id);
+    }
+  }
+
+  private expirePeer(serverId: string): void {
+    const peer = this.peers.get(serverId);
+    if (!peer) return;
+    this.peers.delete(serverId);
+    this.notify("expired", peer);
+  }
+
+  private notify(event: MembershipEvent, peer: ServerInfo): void {
+    console.log(
+      event === "joined"
+        ? `🟢 Server ${peer.id} joined (${peer.address})`
+        : `🔴 Server ${peer.id} expired`
+    );
+    for (const listener of this.listeners) {
+      listener(event, peer);
+    }
+  }
+}
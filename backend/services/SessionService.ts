@@ -0,0 +1,57 @@
+import { randomUUID } from "node:crypto";
+import { PlayerRole } from "../models/Player";
+import { deleteSession, getSession, saveSession } from "../redis";
+import { readToken, signToken } from "../tokens";
+
+// Sessions outlive a disconnect by this much; every resume extends them
+const SESSION_TTL_MS = parseInt(process.env.SESSION_TTL_MS || "3600000");
+
+export interface PlayerSession {
+  id: string;
+  roomName: string;
+  playerName: string;
+  role: PlayerRole;
+  accountId: string | null; // Logged in when they joined (see AccountService)
+  createdAt: number;
+}
+
+// Who a player is in a room, kept in Redis. The client gets a signed token
+// (`sessionId.signature`) at room-joined and sends it back when it
+// reconnects, so it resumes the same name, role and seat instead of
+// claiming them by name.
+export class SessionService {
+  async issue(
+    roomName: string,
+    playerName: string,
+    role: PlayerRole,
+    accountId: string | null
+  ): Promise<{ session: PlayerSession; token: string }> {
+    const session: PlayerSession = {
+      id: randomUUID(),
+      roomName,
+      playerName,
+      role,
+      accountId,
+      createdAt: Date.now(),
+    };
+    await saveSession(session.id, session, SESSION_TTL_MS);
+    return { session, token: signToken(session.id) };
+  }
+
+  // The session behind a token, if the signature holds and it hasn't
+  // expired or been revoked. Extends its lifetime.
+  async resume(token: unknown): Promise<PlayerSession | null> {
+    const sessionId = readToken(token);
+    if (!sessionId) return null;
+
+    const session: PlayerSession | null = await getSession(sessionId);
+    if (!session) return null;
+
+    await saveSession(sessionId, session, SESSION_TTL_MS);
+    return session;
+  }
+
+  async revoke(sessionId: string): Promise<void> {
+    await deleteSession(sessionId);
+  }
+}
@@ -0,0 +1,32 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+// Tokens handed to clients are `id.signature`, signed with a secret shared
+// by every server so any of them can check any token. The development
+// secret is public: production servers refuse to start without their own.
+if (!process.env.SESSION_SECRET && process.env.NODE_ENV === "production") {
+  throw new Error("SESSION_SECRET must be set when NODE_ENV=production");
+}
+const SESSION_SECRET = process.env.SESSION_SECRET || "ponglab-dev-secret";
+if (!process.env.SESSION_SECRET) {
+  console.warn("⚠️ SESSION_SECRET not set, using the development secret");
+}
+
+const sign = (id: string) =>
+  createHmac("sha256", SESSION_SECRET).update(id).digest("base64url");
+
+export const signToken = (id: string): string => `${id}.${sign(id)}`;
+
+// The id inside a token, if its signature holds
+export const readToken = (token: unknown): string | null => {
+  if (typeof token !== "string") return null;
+
+  const [id, signature] = token.split(".");
+  if (!id || !signature) return null;
+
+  const expected = Buffer.from(sign(id));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+  return id;
+};
@@ -1,8 +1,25 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import RoomJoin from "./components/RoomJoin";
 import RoomLobby from "./components/RoomLobby";
-import Game from "./components/Game";
-import { getCurrentSocket, joinRoom as socketJoinRoom } from "./socket";
+import Game, {
+  MatchPause,
+  ReplayData,
+  ReplayViewer,
+} from "./components/Game";
+import {
+  getCurrentSocket,
+  joinRoom as socketJoinRoom,
+  leaveRoom as socketLeaveRoom,
+} from "./socket";
+import { MatchRules } from "./matchRules";
+import { PendingInput } from "./paddlePrediction";
+import { emitPaddleInput } from "./wireFormat";
+import {
+  SnapshotMessage,
+  acknowledgeSnapshot,
+  decodeSnapshot,
+  resetSnapshots,
+} from "./snapshotCodec";
 
 interface RoomData {
   name: string;
@@ -11,6 +28,7 @@ interface RoomData {
   gameState: any;
   isGameActive: boolean;
   selectedPlayers: string[];
+  isMatchmade?: boolean;
 }
 
 interface GameState {
@@ -18,16 +36,21 @@ interface GameState {
   scores: { player1: number; player2: number };
   ball: { x: number; y: number; vx: number; vy: number };
   paddles: { player1: number; player2: number };
+  rules: MatchRules;
+  rally: number;
   winner: string | null;
 }
 
 function App() {
-  const [currentView, setCurrentView] = useState<"join" | "lobby" | "game">(
-    "join"
-  );
+  const [currentView, setCurrentView] = useState<
+    "join" | "lobby" | "game" | "replay"
+  >("join");
   const [roomData, setRoomData] = useState<RoomData | null>(null);
   const [gameState, setGameState] = useState<GameState | null>(null);
+  const [matchPause, setMatchPause] = useState<MatchPause | null>(null);
+  const [replay, setReplay] = useState<ReplayData | null>(null);
   const [isHost, setIsHost] = useState<boolean>(false);
+  const [isSpectator, setIsSpectator] = useState<boolean>(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [socket, setSocket] = useState<any>(null);
   const [availableRooms, setAvailableRooms] = useState<RoomData[]>([]);
@@ -58,9 +81,15 @@ function App() {
 
     socket.on(
       "room-joined",
-      (data: { success: boolean; isHost: boolean; message?: string }) => {
+      (data: {
+        success: boolean;
+        isHost: boolean;
+        role?: "player" | "spectator";
+        message?: string;
+      }) => {
         if (data.success) {
           setIsHost(data.isHost);
+          setIsSpectator(data.role === "spectator");
           setCurrentView("lobby");
         } else {
           setErrorMessage(data.message || "Error desconocido");
@@ -68,6 +97,14 @@ function App() {
       }
     );
 
+    // The host left or handed the room over: switch controls in place
+    socket.on(
+      "room-host-changed",
+      (data: { hostId: string; hostName: string }) => {
+        setIsHost(data.hostId === socket.id);
+      }
+    );
+
     socket.on("room-update", (data: RoomData) => {
       console.log("App room-update:", data);
       setRoomData(data);
@@ -75,12 +112,32 @@ function App() {
 
     socket.on("game-started", (data: GameState) => {
       console.log("Game started event received:", data);
+      resetSnapshots();
       setGameState(data);
+      setMatchPause(null);
       setCurrentView("game");
     });
 
-    socket.on("game-update", (data: GameState) => {
-      setGameState(data);
+    // Match resumed on another server after a failover: on hold until both
+    // players are back, then a short countdown
+    socket.on("game-paused", (pause: MatchPause) => {
+      setMatchPause(pause);
+    });
+
+    socket.on("game-resumed", () => {
+      setMatchPause(null);
+    });
+
+    // game-update carries only the per-tick fields; players and rules come
+    // from game-started and are kept as they are
+    socket.on("game-update", (message: SnapshotMessage | ArrayBuffer) => {
+      const snapshot = decodeSnapshot(message);
+      if (!snapshot) return;
+
+      setGameState((current) =>
+        current ? { ...current, ...snapshot } : current
+      );
+      acknowledgeSnapshot(socket, snapshot.tick);
     });
 
     socket.on("room-deleted", () => {
@@ -89,6 +146,18 @@ function App() {
       setRoomData(null);
       setGameState(null);
       setIsHost(false);
+      setIsSpectator(false);
+    });
+
+    // The host kicked or banned us: back to the join screen with the reason
+    socket.on("kicked", (data: { message: string }) => {
+      setCurrentView("join");
+      setRoomData(null);
+      setGameState(null);
+      setMatchPause(null);
+      setIsHost(false);
+      setIsSpectator(false);
+      setErrorMessage(data.message);
     });
 
     socket.on("error", (data: { message: string }) => {
@@ -101,15 +170,26 @@ function App() {
       setAvailableRooms(rooms);
     });
 
+    // Asked for from the match history on the join screen
+    socket.on("replay", (data: ReplayData) => {
+      setReplay(data);
+      setCurrentView("replay");
+    });
+
     return () => {
       console.log("Cleaning up socket events for:", socket.id);
       socket.off("room-joined");
+      socket.off("room-host-changed");
       socket.off("room-update");
       socket.off("game-started");
+      socket.off("game-paused");
+      socket.off("game-resumed");
       socket.off("game-update");
       socket.off("room-deleted");
+      socket.off("kicked");
       socket.off("error");
       socket.off("rooms-list");
+      socket.off("replay");
     };
   }, [socket]);
 
@@ -143,31 +223,37 @@ function App() {
   const joinRoom = (
     roomName: string,
     password: string,
-    playerName: string
+    playerName: string,
+    asSpectator: boolean
   ): void => {
-    const currentSocket = getCurrentSocket();
-    if (currentSocket) {
-      socketJoinRoom(currentSocket, roomName, password, playerName);
-    } else {
-      console.error("No socket available for joinRoom");
-    }
+    socketJoinRoom(roomName, password, playerName, asSpectator).catch(
+      (error) => {
+        console.error("Failed to join room:", error);
+        setErrorMessage("No se pudo conectar con el servidor de la sala");
+      }
+    );
   };
 
-  const startGame = (selectedPlayers: string[]): void => {
+  const startGame = (selectedPlayers: string[], rules: MatchRules): void => {
     // Always get the current socket from the global function
     const currentSocket = getCurrentSocket();
 
     if (currentSocket) {
-      currentSocket.emit("start-game", selectedPlayers);
+      currentSocket.emit("start-game", {
+        selectedPlayerIds: selectedPlayers,
+        rules,
+      });
     }
   };
 
-  const updateGame = (ball: any, paddles: any, scores: any): void => {
+  // Stable across renders so the game's input loop is not restarted on
+  // every game-update
+  const sendPaddleInput = useCallback((input: PendingInput): void => {
     const currentSocket = getCurrentSocket();
     if (currentSocket) {
-      currentSocket.emit("game-update", { ball, paddles, scores });
+      emitPaddleInput(currentSocket, input);
     }
-  };
+  }, []);
 
   return (
     <div
@@ -175,7 +261,7 @@ function App() {
       style={{ backgroundColor: "#1E1B1E" }}
     >
       <h1 className="text-4xl font-bold text-center py-8">PongLab</h1>
-      {currentView != "game" && (
+      {currentView != "game" && currentView != "replay" && (
         <img
           src="/ping_pong.gif"
           alt="Ping Pong"
@@ -183,6 +269,15 @@ function App() {
         />
       )}
       {currentView === "join" && <RoomJoin onJoin={joinRoom} />}
+      {currentView === "replay" && replay && (
+        <ReplayViewer
+          replay={replay}
+          onClose={() => {
+            setReplay(null);
+            setCurrentView("join");
+          }}
+        />
+      )}
       {currentView === "lobby" && roomData && (
         <RoomLobby
           roomData={roomData}
@@ -196,6 +291,7 @@ function App() {
             setCurrentView("join");
             setRoomData(null);
             setIsHost(false);
+            setIsSpectator(false);
           }}
         />
       )}
@@ -207,14 +303,25 @@ function App() {
             currentSocket && (
               <Game
                 gameState={gameState}
-                onUpdate={updateGame}
+                onPaddleInput={sendPaddleInput}
                 socketId={currentSocket.id}
                 onBackToLobby={() => {
+                  // Public match rooms end with their match
+                  if (roomData?.isMatchmade) {
+                    socketLeaveRoom(currentSocket);
+                    setCurrentView("join");
+                    setRoomData(null);
+                    setGameState(null);
+                    return;
+                  }
                   currentSocket.emit("back-to-lobby");
                   setCurrentView("lobby");
                 }}
                 isWinner={gameState.winner === currentSocket.id}
                 isHost={isHost}
+                isSpectator={isSpectator}
+                pause={matchPause}
+                isMatchmade={roomData?.isMatchmade}
               />
             )
           );
@@ -0,0 +1,74 @@
+import { Socket } from "socket.io-client";
+
+// Estimates the offset between this browser's clock and the server's with a
+// ping/pong exchange, so snapshots stamped with server time can be placed on
+// the local timeline.
+
+interface ClockSample {
+  rtt: number;
+  offset: number;
+}
+
+const PING_INTERVAL = 2000; // 2 seconds
+const MAX_SAMPLES = 8;
+
+let samples: ClockSample[] = [];
+let clockOffset = 0; // serverTime - clientTime, in milliseconds
+let pingInterval: ReturnType<typeof setInterval> | null = null;
+
+// The sample with the lowest round trip has the least queueing noise, so
+// its offset is the most trustworthy
+const updateOffset = () => {
+  const best = samples.reduce<ClockSample | null>(
+    (current, sample) => (!current || sample.rtt < current.rtt ? sample : current),
+    null
+  );
+  if (best) {
+    clockOffset = best.offset;
+  }
+};
+
+const sendPing = (socket: Socket) => {
+  socket.emit("time-ping", { clientTime: Date.now() });
+};
+
+// Start measuring the clock offset on a (new) socket connection
+export const startClockSync = (socket: Socket) => {
+  stopClockSync();
+  samples = [];
+
+  socket.off("time-pong");
+  socket.on(
+    "time-pong",
+    (data: { clientTime: number; serverTime: number }) => {
+      const now = Date.now();
+      const rtt = now - data.clientTime;
+      if (rtt < 0) return;
+
+      samples = [
+        ...samples,
+        { rtt, offset: data.serverTime + rtt / 2 - now },
+      ].slice(-MAX_SAMPLES);
+      updateOffset();
+    }
+  );
+
+  socket.on("disconnect", stopClockSync);
+
+  sendPing(socket);
+  pingInterval = setInterval(() => sendPing(socket), PING_INTERVAL);
+};
+
+export const stopClockSync = () => {
+  if (pingInterval !== null) {
+    clearInterval(pingInterval);
+    pingInterval = null;
+  }
+};
+
+// Current time on the server's clock, in milliseconds
+export const getServerTime = (): number => Date.now() + clockOffset;
+
+// Latest round-trip time measured, in milliseconds
+export const getRoundTripTime = (): number =>
+  samples.length > 0 ? samples[samples.length - 1].rtt : 0;
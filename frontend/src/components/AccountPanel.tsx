@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from "react";
+import { Socket } from "socket.io-client";
+import { StoredAccount, getStoredAccount, logIn, logOut, register } from "../socket";
+
+interface AccountPanelProps {
+  socket: Socket | null;
+  onAccountChange: (account: StoredAccount | null) => void;
+}
+
+// Optional registered account: logged in players always play under their
+// username, and nobody else can take it
+function AccountPanel({ socket, onAccountChange }: Readonly<AccountPanelProps>) {
+  const [account, setAccount] = useState<StoredAccount | null>(
+    getStoredAccount()
+  );
+  const [username, setUsername] = useState<string>("");
+  const [password, setPassword] = useState<string>("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onAccountChange(account);
+  }, [account]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleLoggedIn = (data: any) => {
+      if (data.success) {
+        setAccount({ ...data.account, accountToken: data.accountToken });
+        setPassword("");
+        setError(null);
+      } else {
+        setError(data.message);
+      }
+    };
+    const handleLoggedOut = () => setAccount(null);
+
+    socket.on("logged-in", handleLoggedIn);
+    socket.on("logged-out", handleLoggedOut);
+    return () => {
+      socket.off("logged-in", handleLoggedIn);
+      socket.off("logged-out", handleLoggedOut);
+    };
+  }, [socket]);
+
+  const submit = (e: React.FormEvent, create: boolean) => {
+    e.preventDefault();
+    if (!socket || !username || !password) return;
+    if (create) {
+      register(socket, username, password);
+    } else {
+      logIn(socket, username, password);
+    }
+  };
+
+  if (account) {
+    return (
+      <div className="mb-6 flex items-center justify-between bg-gray-700 p-3 rounded-lg border border-gray-600 text-sm">
+        <span>
+          Sesión iniciada como{" "}
+          <span className="font-semibold text-cyan-400">
+            {account.username}
+          </span>
+        </span>
+        <button
+          type="button"
+          onClick={() => socket && logOut(socket)}
+          className="bg-gray-600 hover:bg-gray-500 text-white py-1 px-3 rounded transition duration-200"
+        >
+          Cerrar sesión
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(e) => submit(e, false)}
+      className="mb-6 bg-gray-700 p-3 rounded-lg border border-gray-600 space-y-2"
+    >
+      <p className="text-sm text-gray-300">
+        Cuenta (opcional): reserva tu nombre para que nadie más lo use.
+      </p>
+      <div className="flex space-x-2">
+        <input
+          type="text"
+          aria-label="Usuario"
+          value={username}
+          onChange={(e) => setUsername(e.target.value.slice(0, 20))}
+          maxLength={20}
+          placeholder="Usuario"
+          className="w-1/2 px-2 py-1 bg-gray-800 border border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="password"
+          aria-label="Contraseña de la cuenta"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Contraseña"
+          className="w-1/2 px-2 py-1 bg-gray-800 border border-gray-600 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <div className="flex space-x-2">
+        <button
+          type="submit"
+          className="flex-1 bg-blue-600 hover:bg-blue-700 text-white py-1 px-3 rounded text-sm transition duration-200"
+        >
+          Iniciar sesión
+        </button>
+        <button
+          type="button"
+          onClick={(e) => submit(e, true)}
+          className="flex-1 bg-gray-600 hover:bg-gray-500 text-white py-1 px-3 rounded text-sm transition duration-200"
+        >
+          Registrarse
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default AccountPanel;
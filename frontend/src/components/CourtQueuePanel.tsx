@@ -0,0 +1,93 @@
+export interface CourtQueueData {
+  names: string[];
+  matchInProgress: boolean;
+  nextMatchAt: number | null;
+}
+
+interface CourtQueuePanelProps {
+  courtQueue: CourtQueueData;
+  isHost: boolean;
+  onReorder: (names: string[]) => void;
+}
+
+// King-of-the-court queue: the first two are on court, the rest wait in
+// order. The host can move waiting players up and down.
+function CourtQueuePanel({
+  courtQueue,
+  isHost,
+  onReorder,
+}: Readonly<CourtQueuePanelProps>) {
+  const { names, matchInProgress } = courtQueue;
+  // Players on court can't be moved while their game is running
+  const firstMovable = matchInProgress ? 2 : 0;
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < firstMovable || target >= names.length) return;
+    const reordered = [...names];
+    [reordered[index], reordered[target]] = [
+      reordered[target],
+      reordered[index],
+    ];
+    onReorder(reordered);
+  };
+
+  const labelFor = (index: number) => {
+    if (index === 0) return "👑 Rey";
+    if (index === 1) return "Retador";
+    return `#${index - 1} en cola`;
+  };
+
+  return (
+    <div className="text-left bg-gray-700 p-4 rounded-lg border border-gray-600 space-y-2">
+      <h3 className="text-lg font-semibold text-cyan-400">
+        Rey de la Pista ({names.length})
+      </h3>
+      <p className="text-xs text-gray-400">
+        Quien pierde pasa al final de la cola y el siguiente reta al ganador.
+      </p>
+      {courtQueue.nextMatchAt !== null && (
+        <p className="text-sm text-gray-300">
+          El siguiente partido empieza en unos segundos...
+        </p>
+      )}
+      {names.map((name, index) => (
+        <div
+          key={name}
+          className={`flex items-center justify-between bg-gray-800 px-3 py-2 rounded border ${
+            index < 2 ? "border-cyan-600" : "border-gray-600"
+          }`}
+        >
+          <span className="text-sm">
+            <span className="text-gray-400 mr-2">{labelFor(index)}</span>
+            {name}
+          </span>
+          {isHost && index >= firstMovable && (
+            <div className="space-x-1">
+              <button
+                type="button"
+                aria-label={`Subir a ${name}`}
+                onClick={() => move(index, -1)}
+                disabled={index <= firstMovable}
+                className="px-2 bg-gray-600 hover:bg-gray-500 rounded disabled:opacity-30"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                aria-label={`Bajar a ${name}`}
+                onClick={() => move(index, 1)}
+                disabled={index === names.length - 1}
+                className="px-2 bg-gray-600 hover:bg-gray-500 rounded disabled:opacity-30"
+              >
+                ↓
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default CourtQueuePanel;
@@ -1,4 +1,24 @@
 import { useEffect, useRef, useState } from "react";
+import { DEFAULT_MATCH_RULES, MatchRules } from "../matchRules";
+import {
+  InputAck,
+  MAX_INPUT_TICKS,
+  PaddleDirection,
+  PendingInput,
+  TICK_MS,
+  movePaddle,
+  reconcile,
+} from "../paddlePrediction";
+import { getServerTime } from "../clockSync";
+import {
+  DEFAULT_INTERPOLATION_DELAY_MS,
+  RenderState,
+  Snapshot,
+  pushSnapshot,
+  sampleSnapshots,
+} from "../snapshotBuffer";
+
+const FIELD_HEIGHT = 600;
 
 interface GameState {
   players: any[];
@@ -8,52 +28,82 @@ interface GameState {
     y: number;
     vx: number;
     vy: number;
-    lastTouched?: "player1" | "player2";
+    lastTouched?: "player1" | "player2" | null;
   };
   paddles: { player1: number; player2: number };
+  rules?: MatchRules;
+  rally?: number;
   winner: string | null;
   timestamp?: number;
+  lastProcessedInput?: { player1: InputAck; player2: InputAck };
 }
 
-interface InterpolatedState {
-  ball: { x: number; y: number };
-  paddles: { player1: number; player2: number };
+// Match on hold after a failover or while a player reconnects (server time
+// for resumeAt and forfeitAt)
+export interface MatchPause {
+  waitingFor: string[];
+  resumeAt: number | null;
+  forfeitAt?: number | null;
 }
 
 interface GameProps {
   readonly gameState: GameState;
-  readonly onUpdate: (ball: any, paddles: any, scores: any) => void;
+  readonly onPaddleInput: (input: PendingInput) => void;
   readonly socketId?: string;
   readonly onBackToLobby?: () => void;
   readonly isWinner?: boolean;
   readonly isHost?: boolean;
+  // Joined to watch: never controls a paddle
+  readonly isSpectator?: boolean;
+  // How far behind the estimated server time remote entities are drawn
+  readonly interpolationDelay?: number;
+  readonly pause?: MatchPause | null;
+  // Public match: there is no room to go back to afterwards
+  readonly isMatchmade?: boolean;
+  // Drawn by ReplayViewer, never for a live match
+  readonly isReplay?: boolean;
 }
 
 function Game({
   gameState,
-  onUpdate,
+  onPaddleInput,
   socketId,
   onBackToLobby,
   isWinner,
   isHost,
+  isSpectator,
+  interpolationDelay = DEFAULT_INTERPOLATION_DELAY_MS,
+  pause,
+  isMatchmade,
+  isReplay,
 }: GameProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [paddleY, setPaddleY] = useState<number>(250);
-  const [lastSentPaddleY, setLastSentPaddleY] = useState<number>(250);
+  const rules = gameState.rules || DEFAULT_MATCH_RULES;
+  const paddleHeight = rules.paddleHeight;
+  const maxPaddleY = FIELD_HEIGHT - paddleHeight;
+  const [paddleY, setPaddleY] = useState<number>(maxPaddleY / 2);
+  let playerSide: "player1" | "player2" | null = null;
+  if (gameState.players[0]?.id === socketId) playerSide = "player1";
+  else if (gameState.players[1]?.id === socketId) playerSide = "player2";
+  // Anyone not playing this match gets the read-only view
+  const isWatching = isSpectator || playerSide === null;
   const [ballTrail, setBallTrail] = useState<Array<{ x: number; y: number }>>(
     []
   );
-  const [previousState, setPreviousState] = useState<GameState | null>(null);
+  const snapshots = useRef<Snapshot[]>([]);
   const [interpolatedState, setInterpolatedState] =
-    useState<InterpolatedState | null>(null);
+    useState<RenderState | null>(null);
   
   // Local player prediction state
   const localPlayerPrediction = useRef<{ player1: number; player2: number }>({
-    player1: 250,
-    player2: 250
+    player1: maxPaddleY / 2,
+    player2: maxPaddleY / 2
   });
   
   const keysPressed = useRef<Set<string>>(new Set());
+  const inputSequence = useRef<number>(0);
+  // Inputs sent but not yet fully processed by the server
+  const pendingInputs = useRef<PendingInput[]>([]);
   const animationFrameRef = useRef<number | null>(null);
 
   useEffect(() => {
@@ -83,7 +133,7 @@ function Game({
         (player: any) => player.id === socketId
       );
       
-      let currentPaddles = gameState.paddles;
+      let currentPaddles = interpolatedState?.paddles || gameState.paddles;
       
       // Use local prediction for immediate response
       if (isActivePlayer) {
@@ -91,8 +141,8 @@ function Game({
         const isPlayer2 = gameState.players[1]?.id === socketId;
         
         currentPaddles = {
-          player1: isPlayer1 ? localPlayerPrediction.current.player1 : gameState.paddles.player1,
-          player2: isPlayer2 ? localPlayerPrediction.current.player2 : gameState.paddles.player2
+          player1: isPlayer1 ? localPlayerPrediction.current.player1 : currentPaddles.player1,
+          player2: isPlayer2 ? localPlayerPrediction.current.player2 : currentPaddles.player2
         };
       }
 
@@ -102,12 +152,12 @@ function Game({
       ctx.shadowColor = "#ff69b4";
       ctx.shadowBlur = 10;
       ctx.fillStyle = "#ff69b4";
-      ctx.fillRect(10, currentPaddles.player1, 10, 100);
+      ctx.fillRect(10, currentPaddles.player1, 10, paddleHeight);
 
       ctx.shadowColor = "#61dafb";
       ctx.shadowBlur = 10;
       ctx.fillStyle = "#61dafb";
-      ctx.fillRect(canvas.width - 20, currentPaddles.player2, 10, 100);
+      ctx.fillRect(canvas.width - 20, currentPaddles.player2, 10, paddleHeight);
       ctx.shadowBlur = 0;
 
       // Draw ball with color based on last touched player
@@ -153,15 +203,11 @@ function Game({
     };
 
     draw();
-  }, [gameState, ballTrail, interpolatedState, socketId]);
+  }, [gameState, ballTrail, interpolatedState, socketId, paddleHeight, paddleY]);
 
   useEffect(() => {
     // Only allow paddle control if this user is one of the active players
-    const isActivePlayer = gameState.players.some(
-      (player: any) => player.id === socketId
-    );
-
-    if (!isActivePlayer) return;
+    if (!playerSide) return;
 
     const handleKeyDown = (e: KeyboardEvent) => {
       keysPressed.current.add(e.key);
@@ -173,33 +219,47 @@ function Game({
       e.preventDefault();
     };
 
-    // High-frequency input handling with requestAnimationFrame
-    const handleInput = () => {
-      let newPaddleY = paddleY;
-      const moveSpeed = 12; // Increased for more responsive feel
-      
-      if (keysPressed.current.has("ArrowUp") && newPaddleY > 0) {
-        newPaddleY = Math.max(0, newPaddleY - moveSpeed);
-      }
-      if (keysPressed.current.has("ArrowDown") && newPaddleY < 500) {
-        newPaddleY = Math.min(500, newPaddleY + moveSpeed);
-      }
+    const getDirection = (): PaddleDirection => {
+      const up = keysPressed.current.has("ArrowUp");
+      const down = keysPressed.current.has("ArrowDown");
+      if (up && !down) return -1;
+      if (down && !up) return 1;
+      return 0;
+    };
 
-      if (newPaddleY !== paddleY) {
-        setPaddleY(newPaddleY);
-        
-        // Update local prediction immediately
-        const isPlayer1 = gameState.players[0]?.id === socketId;
-        if (isPlayer1) {
-          localPlayerPrediction.current.player1 = newPaddleY;
-        } else {
-          localPlayerPrediction.current.player2 = newPaddleY;
-        }
-      }
+    let lastFrameTime = performance.now();
+    let accumulator = 0;
+
+    // Sample the keys at the server tick rate: each frame becomes one input
+    // covering the ticks that elapsed, applied locally right away
+    const handleInput = (now: number) => {
+      accumulator += Math.min(now - lastFrameTime, MAX_INPUT_TICKS * TICK_MS);
+      lastFrameTime = now;
+
+      const ticks = Math.floor(accumulator / TICK_MS);
+      if (ticks === 0) return;
+      accumulator -= ticks * TICK_MS;
+
+      const direction = getDirection();
+      if (direction === 0) return;
+
+      inputSequence.current += 1;
+      const input = { sequence: inputSequence.current, direction, ticks };
+      pendingInputs.current.push(input);
+      onPaddleInput(input);
+
+      const predictedY = movePaddle(
+        localPlayerPrediction.current[playerSide],
+        direction,
+        ticks,
+        paddleHeight
+      );
+      localPlayerPrediction.current[playerSide] = predictedY;
+      setPaddleY(predictedY);
     };
 
-    const inputLoop = () => {
-      handleInput();
+    const inputLoop = (now: number) => {
+      handleInput(now);
       animationFrameRef.current = requestAnimationFrame(inputLoop);
     };
 
@@ -214,43 +274,9 @@ function Game({
         cancelAnimationFrame(animationFrameRef.current);
       }
     };
-  }, [paddleY, gameState.players, socketId]);
+  }, [playerSide, paddleHeight, onPaddleInput]);
 
-  // Send paddle updates with improved frequency
-  useEffect(() => {
-    if (Math.abs(paddleY - lastSentPaddleY) > 0.5) { // Reduced threshold for smoother updates
-      const isActivePlayer = gameState.players.some(
-        (player: any) => player.id === socketId
-      );
-      if (isActivePlayer) {
-        const isPlayer1 = gameState.players[0]?.id === socketId;
-        const isPlayer2 = gameState.players[1]?.id === socketId;
-        if (isPlayer1) {
-          onUpdate(
-            null,
-            { player1: paddleY, player2: gameState.paddles.player2 },
-            null
-          );
-        } else if (isPlayer2) {
-          onUpdate(
-            null,
-            { player1: gameState.paddles.player1, player2: paddleY },
-            null
-          );
-        }
-        setLastSentPaddleY(paddleY);
-      }
-    }
-  }, [
-    paddleY,
-    lastSentPaddleY,
-    gameState.players,
-    gameState.paddles,
-    socketId,
-    onUpdate,
-  ]);
-
-  // Update ball trail and handle interpolation
+  // Update ball trail and buffer the snapshot for interpolation
   useEffect(() => {
     if (gameState?.ball) {
       setBallTrail((prev) => {
@@ -261,80 +287,51 @@ function Game({
         return newTrail.slice(-10); // Keep only last 10 positions
       });
 
-      // Store previous state for interpolation
-      setPreviousState(gameState);
+      if (gameState.timestamp) {
+        snapshots.current = pushSnapshot(snapshots.current, {
+          time: gameState.timestamp,
+          ball: gameState.ball,
+          paddles: gameState.paddles,
+          scores: gameState.scores,
+        });
+      }
     }
   }, [gameState?.ball]);
 
-  // Enhanced interpolation effect for smooth rendering
+  // Render remote entities a fixed delay behind the estimated server time,
+  // blending the buffered snapshots around that moment
   useEffect(() => {
-    if (!previousState || !gameState) return;
+    let frame: number;
 
     const interpolate = () => {
-      const now = Date.now();
-      const timeDiff = gameState.timestamp ? now - gameState.timestamp : 16;
-      const interpolationFactor = Math.min(timeDiff / 8.33, 1); // 120 FPS baseline for smoother interpolation
-
-      // Enhanced ball interpolation with smooth step
-      const interpolatedBall = {
-        x:
-          previousState.ball.x +
-          (gameState.ball.x - previousState.ball.x) *
-            smoothStep(interpolationFactor),
-        y:
-          previousState.ball.y +
-          (gameState.ball.y - previousState.ball.y) *
-            smoothStep(interpolationFactor),
-      };
-
-      // Enhanced paddle interpolation for smooth remote player movement
-      const interpolatedPaddles = {
-        player1:
-          previousState.paddles.player1 +
-          (gameState.paddles.player1 - previousState.paddles.player1) *
-            smoothStep(interpolationFactor),
-        player2:
-          previousState.paddles.player2 +
-          (gameState.paddles.player2 - previousState.paddles.player2) *
-            smoothStep(interpolationFactor),
-      };
-
-      setInterpolatedState({
-        ball: interpolatedBall,
-        paddles: interpolatedPaddles,
-      });
+      const renderTime = getServerTime() - interpolationDelay;
+      setInterpolatedState(sampleSnapshots(snapshots.current, renderTime));
+      frame = requestAnimationFrame(interpolate);
     };
 
-    const interpolationFrame = requestAnimationFrame(interpolate);
-    return () => cancelAnimationFrame(interpolationFrame);
-  }, [gameState, previousState]);
-
-  // Smooth interpolation function for better visual quality
-  const smoothStep = (t: number): number => {
-    // Smooth cubic easing for better visual quality
-    return t * t * (3 - 2 * t);
-  };
+    frame = requestAnimationFrame(interpolate);
+    return () => cancelAnimationFrame(frame);
+  }, [interpolationDelay]);
 
-  // Reconcile local prediction with server state
+  // Reconcile local prediction with server state: start from the
+  // authoritative paddle and replay the inputs the server has not applied yet
   useEffect(() => {
-    const isActivePlayer = gameState.players.some(
-      (player: any) => player.id === socketId
-    );
-
-    if (!isActivePlayer || !gameState.timestamp) return;
-
-    const isPlayer1 = gameState.players[0]?.id === socketId;
-    const isPlayer2 = gameState.players[1]?.id === socketId;
+    if (!playerSide || !gameState.lastProcessedInput) return;
 
-    // Gradually converge local prediction to server state
-    if (isPlayer1) {
-      localPlayerPrediction.current.player1 = 
-        localPlayerPrediction.current.player1 * 0.7 + gameState.paddles.player1 * 0.3;
-    } else if (isPlayer2) {
-      localPlayerPrediction.current.player2 = 
-        localPlayerPrediction.current.player2 * 0.7 + gameState.paddles.player2 * 0.3;
-    }
-  }, [gameState.paddles, gameState.timestamp, socketId, gameState.players]);
+    const { predictedY, pending } = reconcile(
+      gameState.paddles[playerSide],
+      pendingInputs.current,
+      gameState.lastProcessedInput[playerSide],
+      paddleHeight
+    );
+    pendingInputs.current = pending;
+    localPlayerPrediction.current[playerSide] = predictedY;
+  }, [
+    gameState.paddles,
+    gameState.lastProcessedInput,
+    playerSide,
+    paddleHeight,
+  ]);
 
   if (gameState.winner) {
     const winnerPlayer = gameState.players.find(
@@ -371,7 +368,7 @@ function Game({
                 onClick={onBackToLobby || (() => window.location.reload())}
                 className="w-full bg-gray-600 hover:bg-gray-700 text-white py-2 px-4 rounded-md transition duration-200 font-semibold"
               >
-                Volver a la Sala
+                {isMatchmade ? "Volver al Inicio" : "Volver a la Sala"}
               </button>
             </div>
           </div>
@@ -385,19 +382,307 @@ function Game({
       className="min-auto text-white flex flex-col items-center justify-center p-4"
       style={{ backgroundColor: "#1E1B1E" }}
     >
-      <canvas
-        ref={canvasRef}
-        width={800}
-        height={600}
-        className="border-2 border-white bg-black transition-transform duration-300 hover:scale-105 hover:shadow-lg hover:shadow-cyan-500/30"
-      />
+      <div className="relative">
+        <canvas
+          ref={canvasRef}
+          width={800}
+          height={600}
+          className="border-2 border-white bg-black transition-transform duration-300 hover:scale-105 hover:shadow-lg hover:shadow-cyan-500/30"
+        />
+        {pause && (
+          <div className="absolute inset-0 bg-black bg-opacity-70 flex flex-col items-center justify-center text-center">
+            <p className="text-2xl font-bold text-yellow-400">
+              Partida en pausa
+            </p>
+            {pause.resumeAt === null ? (
+              <>
+                <p className="text-gray-300 mt-2">
+                  Esperando a que se reconecte: {pause.waitingFor.join(", ")}
+                </p>
+                {pause.forfeitAt != null && (
+                  <p className="text-gray-400 text-sm mt-1">
+                    Si no vuelve, pierde la partida en{" "}
+                    {Math.max(
+                      0,
+                      Math.ceil((pause.forfeitAt - getServerTime()) / 1000)
+                    )}
+                    s
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="text-gray-300 mt-2">
+                Reanudando en{" "}
+                {Math.max(
+                  0,
+                  Math.ceil((pause.resumeAt - getServerTime()) / 1000)
+                )}
+                ...
+              </p>
+            )}
+            <p className="text-gray-400 text-sm mt-2">
+              Marcador: {gameState.scores.player1} - {gameState.scores.player2}
+            </p>
+          </div>
+        )}
+      </div>
       <div className="mt-4 text-center">
-        <p className="text-gray-300 text-sm">
-          Usa las teclas ↑↓ para mover tu paleta
-        </p>
+        {isWatching ? (
+          <>
+            <p className="text-purple-400 text-sm font-semibold">
+              {isReplay ? "Repetición" : "Modo espectador"}
+            </p>
+            <p className="text-gray-300 text-sm mt-1">
+              {gameState.players[0]?.name || "Player 1"}{" "}
+              {gameState.scores.player1} - {gameState.scores.player2}{" "}
+              {gameState.players[1]?.name || "Player 2"}
+            </p>
+            <p className="text-gray-300 text-sm mt-1">
+              Rally actual: {gameState.rally ?? 0} golpes
+            </p>
+          </>
+        ) : (
+          <p className="text-gray-300 text-sm">
+            Usa las teclas ↑↓ para mover tu paleta
+          </p>
+        )}
         <p className="text-gray-400 text-xs mt-1">
-          Sistema mejorado de FPS para movimiento más fluido
+          Gana el primero en llegar a {rules.targetScore} puntos
+          {rules.winByTwo && " (con dos de diferencia)"}
         </p>
+        {!isWatching && !isReplay && (
+          <p className="text-gray-400 text-xs mt-1">
+            Sistema mejorado de FPS para movimiento más fluido
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// [tick, ballX, ballY, paddle1, paddle2, score1, score2, lastTouched, rally]
+// with lastTouched 0 (nobody), 1 (player1) or 2 (player2)
+type ReplayFrame = [
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number
+];
+
+// A finished match played back by the server (see get-replay)
+export interface ReplayData {
+  match: {
+    id: string;
+    room: string;
+    players: { name: string; side: "player1" | "player2"; score: number }[];
+    winner: string;
+    endReason: "win" | "forfeit" | "disconnect";
+  };
+  rules: MatchRules;
+  tickRate: number;
+  frameRate: number;
+  startTick: number;
+  endTick: number;
+  frames: ReplayFrame[];
+  points: {
+    tick: number;
+    scorer: "player1" | "player2";
+    scores: { player1: number; player2: number };
+  }[];
+  divergedAtTick: number | null;
+}
+
+const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+const LAST_TOUCHED: Array<"player1" | "player2" | null> = [
+  null,
+  "player1",
+  "player2",
+];
+
+// Time into the match for a tick, as m:ss
+const formatTick = (ticks: number, tickRate: number) => {
+  const seconds = Math.floor(ticks / tickRate);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+// State to draw at `tick`, blended between the frames around it. Frames on
+// either side of a point are not blended: the ball jumps to the serve.
+const sampleReplay = (
+  replay: ReplayData,
+  tick: number
+): Omit<GameState, "players" | "winner"> => {
+  const { frames } = replay;
+  let low = 0;
+  let high = frames.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (frames[middle][0] <= tick) low = middle;
+    else high = middle - 1;
+  }
+
+  const from = frames[low];
+  const to = frames[Math.min(low + 1, frames.length - 1)];
+  const samePoint = from[5] === to[5] && from[6] === to[6];
+  const t =
+    samePoint && to[0] > from[0] ? (tick - from[0]) / (to[0] - from[0]) : 0;
+  const blend = (index: number) => from[index] + (to[index] - from[index]) * t;
+
+  return {
+    ball: {
+      x: blend(1),
+      y: blend(2),
+      vx: 0,
+      vy: 0,
+      lastTouched: LAST_TOUCHED[from[7]],
+    },
+    paddles: { player1: blend(3), player2: blend(4) },
+    scores: { player1: from[5], player2: from[6] },
+    rules: replay.rules,
+    rally: from[8],
+  };
+};
+
+interface ReplayViewerProps {
+  readonly replay: ReplayData;
+  readonly onClose: () => void;
+}
+
+// Watch a finished match: play/pause, scrub, change speed and jump to the
+// start of any point
+export function ReplayViewer({ replay, onClose }: ReplayViewerProps) {
+  const { startTick, endTick, tickRate, points } = replay;
+  const [tick, setTick] = useState<number>(startTick);
+  const [isPlaying, setIsPlaying] = useState<boolean>(true);
+  const [speed, setSpeed] = useState<number>(1);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frame: number;
+    let lastFrameTime = performance.now();
+    const advance = (now: number) => {
+      const elapsedTicks = ((now - lastFrameTime) / 1000) * tickRate * speed;
+      lastFrameTime = now;
+      setTick((current) => Math.min(current + elapsedTicks, endTick));
+      frame = requestAnimationFrame(advance);
+    };
+
+    frame = requestAnimationFrame(advance);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, speed, tickRate, endTick]);
+
+  // Stop at the end; playing again starts over
+  useEffect(() => {
+    if (tick >= endTick) setIsPlaying(false);
+  }, [tick, endTick]);
+
+  const togglePlaying = () => {
+    if (!isPlaying && tick >= endTick) setTick(startTick);
+    setIsPlaying(!isPlaying);
+  };
+
+  // A point starts where the previous one was scored
+  const jumpToPoint = (index: number) => {
+    setTick(index === 0 ? startTick : points[index - 1].tick);
+  };
+
+  const gameState: GameState = {
+    ...sampleReplay(replay, tick),
+    players: replay.match.players.map((player) => ({
+      id: `replay-${player.side}`,
+      name: player.name,
+    })),
+    winner: null,
+  };
+
+  return (
+    <div>
+      <Game gameState={gameState} onPaddleInput={() => {}} isReplay />
+      <div className="max-w-3xl mx-auto px-4 pb-8 text-white space-y-3">
+        {replay.divergedAtTick !== null && (
+          <p className="text-yellow-400 text-sm text-center">
+            La física actual no reproduce esta partida a partir del{" "}
+            {formatTick(replay.divergedAtTick - startTick, tickRate)}
+          </p>
+        )}
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={togglePlaying}
+            className="bg-cyan-600 hover:bg-cyan-700 text-white py-1 px-3 rounded transition duration-200 font-semibold w-24"
+          >
+            {isPlaying ? "Pausa" : "Reproducir"}
+          </button>
+          <input
+            type="range"
+            min={startTick}
+            max={endTick}
+            step={1}
+            value={tick}
+            onChange={(e) => setTick(Number(e.target.value))}
+            className="flex-1"
+          />
+          <span className="text-sm text-gray-300 w-24 text-right">
+            {formatTick(tick - startTick, tickRate)} /{" "}
+            {formatTick(endTick - startTick, tickRate)}
+          </span>
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm"
+          >
+            {REPLAY_SPEEDS.map((option) => (
+              <option key={option} value={option}>
+                {option}x
+              </option>
+            ))}
+          </select>
+        </div>
+        {points.length > 0 && (
+          <div className="flex flex-wrap gap-2 text-sm">
+            {points.map((point, index) => {
+              const isCurrent =
+                tick >= (index === 0 ? startTick : points[index - 1].tick) &&
+                tick < point.tick;
+              return (
+                <button
+                  key={point.tick}
+                  type="button"
+                  onClick={() => jumpToPoint(index)}
+                  className={`py-1 px-2 rounded ${
+                    isCurrent
+                      ? "bg-cyan-900 border border-cyan-600"
+                      : "bg-gray-700 hover:bg-gray-600"
+                  }`}
+                >
+                  {point.scores.player1}-{point.scores.player2}{" "}
+                  <span
+                    className={
+                      point.scorer === "player1"
+                        ? "text-pink-400"
+                        : "text-cyan-400"
+                    }
+                  >
+                    ●
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+        <button
+          type="button"
+          onClick={onClose}
+          className="w-full bg-gray-600 hover:bg-gray-700 text-white py-2 px-4 rounded-md transition duration-200 font-semibold"
+        >
+          Cerrar Repetición
+        </button>
       </div>
     </div>
   );
@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { Socket } from "socket.io-client";
+
+interface LeaderboardEntry {
+  rank: number;
+  accountId: string;
+  username: string;
+  rating: number;
+  wins: number;
+  losses: number;
+  forfeits: number;
+}
+
+interface LeaderboardPanelProps {
+  socket: Socket | null;
+  // Highlighted in the list
+  username: string | null;
+}
+
+// Highest rated registered players, asked for when the panel is opened
+function LeaderboardPanel({ socket, username }: Readonly<LeaderboardPanelProps>) {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+
+  useEffect(() => {
+    if (!socket || !isOpen) return;
+
+    const handleLeaderboard = (data: { entries: LeaderboardEntry[] }) => {
+      setEntries(data.entries);
+    };
+    socket.on("leaderboard", handleLeaderboard);
+    socket.emit("get-leaderboard", { limit: 10 });
+    return () => {
+      socket.off("leaderboard", handleLeaderboard);
+    };
+  }, [socket, isOpen]);
+
+  return (
+    <div className="mb-6 bg-gray-700 p-3 rounded-lg border border-gray-600 text-sm">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full text-left font-semibold text-cyan-400"
+      >
+        {isOpen ? "▾" : "▸"} Clasificación
+      </button>
+      {isOpen && entries === null && (
+        <p className="mt-2 text-gray-400">Cargando...</p>
+      )}
+      {isOpen && entries?.length === 0 && (
+        <p className="mt-2 text-gray-400">
+          Todavía no hay partidas puntuadas entre jugadores con cuenta.
+        </p>
+      )}
+      {isOpen && entries && entries.length > 0 && (
+        <ol className="mt-2 space-y-1">
+          {entries.map((entry) => (
+            <li
+              key={entry.accountId}
+              className={`flex justify-between px-2 py-1 rounded ${
+                entry.username === username
+                  ? "bg-cyan-900 border border-cyan-600"
+                  : "bg-gray-800"
+              }`}
+            >
+              <span>
+                <span className="text-gray-400 mr-2">#{entry.rank}</span>
+                {entry.username}
+              </span>
+              <span>
+                <span className="font-semibold">{entry.rating}</span>
+                <span className="text-gray-400 ml-2">
+                  {entry.wins}V {entry.losses}D
+                  {entry.forfeits > 0 && ` · ${entry.forfeits} abandonos`}
+                </span>
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+export default LeaderboardPanel;
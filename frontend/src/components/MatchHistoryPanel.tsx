@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { Socket } from "socket.io-client";
+import { getReplay } from "../socket";
+
+interface MatchRecord {
+  id: string;
+  room: string;
+  players: { name: string; side: "player1" | "player2"; score: number }[];
+  winner: string;
+  endReason: "win" | "forfeit" | "disconnect";
+  endedAt: number;
+  durationMs: number;
+  longestRally: number;
+  hasReplay?: boolean;
+}
+
+interface MatchHistoryPanelProps {
+  socket: Socket | null;
+  playerName: string;
+}
+
+const END_REASONS: Record<MatchRecord["endReason"], string> = {
+  win: "",
+  forfeit: " (abandono)",
+  disconnect: " (desconexión)",
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+// A player's latest matches, asked for when the panel is opened
+function MatchHistoryPanel({
+  socket,
+  playerName,
+}: Readonly<MatchHistoryPanelProps>) {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [matches, setMatches] = useState<MatchRecord[] | null>(null);
+
+  useEffect(() => {
+    if (!socket || !isOpen || !playerName) return;
+
+    const handleHistory = (data: { matches: MatchRecord[] }) => {
+      setMatches(data.matches);
+    };
+    socket.on("match-history", handleHistory);
+    socket.emit("get-match-history", { playerName });
+    return () => {
+      socket.off("match-history", handleHistory);
+    };
+  }, [socket, isOpen, playerName]);
+
+  if (!playerName) return null;
+
+  return (
+    <div className="mb-6 bg-gray-700 p-3 rounded-lg border border-gray-600 text-sm">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full text-left font-semibold text-cyan-400"
+      >
+        {isOpen ? "▾" : "▸"} Partidas recientes de {playerName}
+      </button>
+      {isOpen && matches === null && (
+        <p className="mt-2 text-gray-400">Cargando...</p>
+      )}
+      {isOpen && matches?.length === 0 && (
+        <p className="mt-2 text-gray-400">Todavía no hay partidas.</p>
+      )}
+      {isOpen && matches && matches.length > 0 && (
+        <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+          {matches.map((match) => {
+            const me = match.players.find(
+              (player) => player.name.toLowerCase() === playerName.toLowerCase()
+            );
+            const opponent = match.players.find((player) => player !== me);
+            const won = match.winner === me?.name;
+            return (
+              <li
+                key={match.id}
+                className="flex justify-between bg-gray-800 px-2 py-1 rounded"
+              >
+                <span>
+                  <span className={won ? "text-green-400" : "text-red-400"}>
+                    {won ? "Victoria" : "Derrota"}
+                  </span>{" "}
+                  vs {opponent?.name ?? "?"} · {me?.score ?? 0}–
+                  {opponent?.score ?? 0}
+                  {END_REASONS[match.endReason]}
+                </span>
+                <span className="text-gray-400">
+                  {formatDuration(match.durationMs)} · rally {match.longestRally}
+                  {match.hasReplay && socket && (
+                    <button
+                      type="button"
+                      onClick={() => getReplay(socket, match.id)}
+                      title="Ver repetición"
+                      className="ml-2 text-cyan-400 hover:text-cyan-300"
+                    >
+                      ▶
+                    </button>
+                  )}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default MatchHistoryPanel;
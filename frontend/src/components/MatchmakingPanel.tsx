@@ -0,0 +1,123 @@
+import { useEffect, useRef, useState } from "react";
+import { Socket } from "socket.io-client";
+import { cancelMatch, findMatch } from "../socket";
+
+interface MatchmakingPanelProps {
+  socket: Socket | null;
+  playerName: string;
+}
+
+interface Search {
+  queuedAt: number;
+  rating: number;
+}
+
+// Public matchmaking: wait for an opponent of similar rating instead of
+// picking a room. The match starts by itself once one is found.
+function MatchmakingPanel({
+  socket,
+  playerName,
+}: Readonly<MatchmakingPanelProps>) {
+  const [search, setSearch] = useState<Search | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Paired, on the way to the match's server
+  const [opponent, setOpponent] = useState<string | null>(null);
+  const [now, setNow] = useState<number>(Date.now());
+  const searchRef = useRef<Search | null>(null);
+  searchRef.current = search;
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleSearching = (data: Search) => {
+      setSearch(data);
+      setOpponent(null);
+      setError(null);
+    };
+    const handleCancelled = (data: { message?: string }) => {
+      setSearch(null);
+      setOpponent(null);
+      setError(data.message ?? null);
+    };
+    const handleFound = (data: { opponent: { name: string } }) => {
+      setSearch(null);
+      setOpponent(data.opponent.name);
+    };
+    // Our seat was refused (e.g. the match expired)
+    const handleJoined = (data: { success: boolean; message?: string }) => {
+      if (data.success) return;
+      setOpponent(null);
+      setError(data.message ?? null);
+    };
+
+    socket.on("match-searching", handleSearching);
+    socket.on("match-cancelled", handleCancelled);
+    socket.on("match-found", handleFound);
+    socket.on("room-joined", handleJoined);
+    return () => {
+      socket.off("match-searching", handleSearching);
+      socket.off("match-cancelled", handleCancelled);
+      socket.off("match-found", handleFound);
+      socket.off("room-joined", handleJoined);
+    };
+  }, [socket]);
+
+  // Leaving the screen (e.g. joining a room by hand) leaves the queue
+  useEffect(() => {
+    return () => {
+      if (socket && searchRef.current) cancelMatch(socket);
+    };
+  }, [socket]);
+
+  // Waiting time on screen
+  useEffect(() => {
+    if (!search) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [search]);
+
+  const waitedSeconds = search
+    ? Math.max(0, Math.floor((now - search.queuedAt) / 1000))
+    : 0;
+
+  return (
+    <div className="mb-6 bg-gray-700 p-3 rounded-lg border border-gray-600 text-sm space-y-2">
+      {search ? (
+        <div className="flex items-center justify-between">
+          <span>
+            Buscando rival ({search.rating})... {waitedSeconds}s
+          </span>
+          <button
+            type="button"
+            onClick={() => socket && cancelMatch(socket)}
+            className="bg-gray-600 hover:bg-gray-500 text-white py-1 px-3 rounded transition duration-200"
+          >
+            Cancelar
+          </button>
+        </div>
+      ) : opponent ? (
+        <p className="text-cyan-300">
+          Rival encontrado: {opponent}. Entrando en la partida...
+        </p>
+      ) : (
+        <button
+          type="button"
+          onClick={() => socket && findMatch(socket, playerName)}
+          disabled={!socket || !playerName}
+          className="w-full bg-cyan-600 hover:bg-cyan-700 text-white py-2 px-4 rounded-md transition duration-200 font-semibold disabled:opacity-50"
+        >
+          Partida Rápida
+        </button>
+      )}
+      {error && <p className="text-red-400">{error}</p>}
+      {!search && !opponent && (
+        <p className="text-xs text-gray-400">
+          Te empareja con alguien de nivel parecido; cuanto más esperas, más
+          amplio es el rango.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default MatchmakingPanel;
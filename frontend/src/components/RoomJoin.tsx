@@ -1,5 +1,9 @@
 import React, { useState, useEffect } from "react";
-import { getCurrentSocket } from "../socket";
+import { StoredAccount, getCurrentSocket } from "../socket";
+import AccountPanel from "./AccountPanel";
+import MatchHistoryPanel from "./MatchHistoryPanel";
+import LeaderboardPanel from "./LeaderboardPanel";
+import MatchmakingPanel from "./MatchmakingPanel";
 
 interface Room {
   name: string;
@@ -8,13 +12,17 @@ interface Room {
   guests: any[];
   gameState: any;
   isGameActive: boolean;
+  spectatorCount?: number;
+  isPrivate?: boolean;
+  isMatchmade?: boolean;
 }
 
 interface RoomJoinProps {
   readonly onJoin: (
     roomName: string,
     password: string,
-    playerName: string
+    playerName: string,
+    asSpectator: boolean
   ) => void;
 }
 
@@ -22,8 +30,16 @@ function RoomJoin({ onJoin }: RoomJoinProps) {
   const [roomName, setRoomName] = useState<string>("");
   const [password, setPassword] = useState<string>("");
   const [playerName, setPlayerName] = useState<string>("");
+  const [asSpectator, setAsSpectator] = useState<boolean>(false);
   const [availableRooms, setAvailableRooms] = useState<Room[]>([]);
   const [socket, setSocket] = useState<any>(null);
+  const [account, setAccount] = useState<StoredAccount | null>(null);
+
+  // Logged in players play under their username
+  const handleAccountChange = (next: StoredAccount | null) => {
+    setAccount(next);
+    if (next) setPlayerName(next.username);
+  };
 
   useEffect(() => {
     const currentSocket = getCurrentSocket();
@@ -39,7 +55,8 @@ function RoomJoin({ onJoin }: RoomJoinProps) {
     socket.emit("get-rooms");
 
     socket.on("rooms-list", (rooms: Room[]) => {
-      setAvailableRooms(rooms);
+      // Public match rooms are closed to everyone but their two players
+      setAvailableRooms(rooms.filter((room) => !room.isMatchmade));
     });
 
     // Set up periodic refresh every 5 seconds
@@ -72,12 +89,19 @@ function RoomJoin({ onJoin }: RoomJoinProps) {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (roomName && playerName) {
-      onJoin(roomName, password, playerName);
+      onJoin(roomName, password, playerName, asSpectator);
     }
   };
 
   const handleJoinExistingRoom = (room: Room) => {
     setRoomName(room.name);
+    setAsSpectator(false);
+  };
+
+  // Matches in progress can only be joined to watch
+  const handleWatchRoom = (room: Room) => {
+    setRoomName(room.name);
+    setAsSpectator(true);
   };
 
   return (
@@ -94,6 +118,20 @@ function RoomJoin({ onJoin }: RoomJoinProps) {
             Unirse o Crear Sala
           </h2>
 
+          <AccountPanel
+            socket={socket}
+            onAccountChange={handleAccountChange}
+          />
+
+          <MatchmakingPanel socket={socket} playerName={playerName} />
+
+          <MatchHistoryPanel socket={socket} playerName={playerName} />
+
+          <LeaderboardPanel
+            socket={socket}
+            username={account?.username ?? null}
+          />
+
           {availableRooms.length > 0 && (
             <div className="mb-6">
               <h3 className="text-lg font-semibold mb-3 text-cyan-400">
@@ -104,30 +142,53 @@ function RoomJoin({ onJoin }: RoomJoinProps) {
                   availableRooms.length > 1 ? "max-h-30 overflow-y-auto" : ""
                 }`}
               >
-                {availableRooms.map((room) => (
-                  <div
-                    key={room.name}
-                    className="bg-gray-700 p-4 rounded-lg border border-gray-600 hover:border-cyan-400 transition-all duration-200 hover:shadow-lg hover:shadow-cyan-500/20"
-                  >
-                    <div className="flex justify-between items-center mb-2">
-                      <h4 className="font-bold text-white">{room.name}</h4>
-                      <span className="text-sm text-gray-300 bg-gray-600 px-2 py-1 rounded">
-                        {room.players.length + room.guests.length} players
-                      </span>
-                    </div>
-                    <div className="flex justify-between items-center">
-                      <span className="text-sm text-gray-400">
-                        Status: {room.isGameActive ? "In Game" : "Waiting"}
-                      </span>
-                      <button
-                        onClick={() => handleJoinExistingRoom(room)}
-                        className="bg-cyan-600 hover:bg-cyan-700 text-white py-1 px-3 rounded text-sm transition duration-200 font-medium"
-                      >
-                        Join
-                      </button>
+                {availableRooms.map((room) => {
+                  const spectatorCount = room.spectatorCount ?? 0;
+                  const playerCount =
+                    room.players.length + room.guests.length - spectatorCount;
+
+                  return (
+                    <div
+                      key={room.name}
+                      className="bg-gray-700 p-4 rounded-lg border border-gray-600 hover:border-cyan-400 transition-all duration-200 hover:shadow-lg hover:shadow-cyan-500/20"
+                    >
+                      <div className="flex justify-between items-center mb-2">
+                        <h4 className="font-bold text-white">
+                          {room.isPrivate && (
+                            <span title="Sala con contraseña" className="mr-1">
+                              🔒
+                            </span>
+                          )}
+                          {room.name}
+                        </h4>
+                        <span className="text-sm text-gray-300 bg-gray-600 px-2 py-1 rounded">
+                          {playerCount} players · {spectatorCount} spectators
+                        </span>
+                      </div>
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm text-gray-400">
+                          Status: {room.isGameActive ? "In Game" : "Waiting"}
+                        </span>
+                        <div className="flex space-x-2">
+                          {!room.isGameActive && (
+                            <button
+                              onClick={() => handleJoinExistingRoom(room)}
+                              className="bg-cyan-600 hover:bg-cyan-700 text-white py-1 px-3 rounded text-sm transition duration-200 font-medium"
+                            >
+                              Join
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleWatchRoom(room)}
+                            className="bg-purple-600 hover:bg-purple-700 text-white py-1 px-3 rounded text-sm transition duration-200 font-medium"
+                          >
+                            Watch
+                          </button>
+                        </div>
+                      </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </div>
           )}
@@ -180,15 +241,29 @@ function RoomJoin({ onJoin }: RoomJoinProps) {
                 onChange={(e) => setPlayerName(e.target.value.slice(0, 20))}
                 maxLength={20}
                 placeholder="Máximo 20 caracteres"
-                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={account !== null}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
                 required
               />
             </div>
+            <label
+              htmlFor="spectator-checkbox"
+              className="flex items-center space-x-2 text-sm"
+            >
+              <input
+                id="spectator-checkbox"
+                type="checkbox"
+                checked={asSpectator}
+                onChange={(e) => setAsSpectator(e.target.checked)}
+                className="w-4 h-4"
+              />
+              <span>Unirse como espectador (solo ver la partida)</span>
+            </label>
             <button
               type="submit"
               className="w-full bg-green-600 hover:bg-green-700 text-white py-2 px-4 rounded-md transition duration-200 font-semibold"
             >
-              Unirse a la Sala
+              {asSpectator ? "Ver la Sala" : "Unirse a la Sala"}
             </button>
           </form>
         </div>
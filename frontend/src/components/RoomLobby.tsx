@@ -1,5 +1,18 @@
 import React, { useState, useEffect } from "react";
 import { socket, getCurrentSocket } from "../socket";
+import {
+  BALL_SPEED_OPTIONS,
+  DEFAULT_MATCH_RULES,
+  MatchRules,
+  PADDLE_HEIGHT_OPTIONS,
+  TARGET_SCORE_OPTIONS,
+} from "../matchRules";
+import TournamentBracket, {
+  TOURNAMENT_FORMAT_LABELS,
+  TournamentData,
+  TournamentFormat,
+} from "./TournamentBracket";
+import CourtQueuePanel, { CourtQueueData } from "./CourtQueuePanel";
 
 interface Player {
   id: string;
@@ -7,6 +20,8 @@ interface Player {
   room: string;
   isHost: boolean;
   isActive: boolean;
+  role?: "player" | "spectator";
+  reconnectDeadline?: number | null; // Set while disconnected
 }
 
 interface RoomData {
@@ -16,12 +31,28 @@ interface RoomData {
   gameState: any;
   isGameActive: boolean;
   selectedPlayers: string[];
+  snapshotRate?: number;
+  tournament?: TournamentData | null;
+  mode?: RoomMode;
+  courtQueue?: CourtQueueData | null;
+  successorName?: string | null; // Takes over as host if the host leaves
+  isLocked?: boolean; // No new players can join
 }
 
+type RoomMode = "host-pick" | "king-of-the-court";
+
+const ROOM_MODE_LABELS: Record<RoomMode, string> = {
+  "host-pick": "El anfitrión elige",
+  "king-of-the-court": "Rey de la pista",
+};
+
+// game-update send rates the host can pick (physics always runs at 120 Hz)
+const SNAPSHOT_RATE_OPTIONS = [30, 60, 120];
+
 interface RoomLobbyProps {
   roomData: RoomData;
   isHost: boolean;
-  onStartGame: (selectedPlayers: string[]) => void;
+  onStartGame: (selectedPlayers: string[], rules: MatchRules) => void;
   onExitRoom: () => void;
 }
 
@@ -39,8 +70,11 @@ function RoomLobby({
     setSelectedPlayers(roomData.selectedPlayers || []);
   }, [roomData.selectedPlayers, isHost, roomData.players, roomData.guests]);
 
+  const isKingOfTheCourt = roomData.mode === "king-of-the-court";
+
   const handlePlayerSelect = (playerId: string) => {
-    if (!isHost) return;
+    // In king of the court the queue picks the players
+    if (!isHost || isKingOfTheCourt) return;
     const current = selectedPlayers;
     let newSelected;
     if (current.includes(playerId)) {
@@ -60,11 +94,32 @@ function RoomLobby({
   };
 
   const [isStartingGame, setIsStartingGame] = useState(false);
+  const [rules, setRules] = useState<MatchRules>(DEFAULT_MATCH_RULES);
+  const [tournamentFormat, setTournamentFormat] =
+    useState<TournamentFormat>("single-elimination");
+
+  const updateRule = <K extends keyof MatchRules>(
+    key: K,
+    value: MatchRules[K]
+  ) => {
+    setRules((current) => ({ ...current, [key]: value }));
+  };
+
+  const handleSnapshotRateChange = (rate: number) => {
+    const currentSocket = getCurrentSocket();
+    if (currentSocket) {
+      currentSocket.emit("set-snapshot-rate", { rate });
+    }
+  };
+
+  const canStartGame = isKingOfTheCourt
+    ? (roomData.courtQueue?.names.length ?? 0) >= 2
+    : selectedPlayers.length === 2;
 
   const handleStartGame = () => {
-    if (selectedPlayers.length === 2 && isHost && !isStartingGame) {
+    if (canStartGame && isHost && !isStartingGame) {
       setIsStartingGame(true);
-      onStartGame(selectedPlayers);
+      onStartGame(isKingOfTheCourt ? [] : selectedPlayers, rules);
 
       // Reset starting state after 3 seconds (in case no response)
       setTimeout(() => {
@@ -73,8 +128,104 @@ function RoomLobby({
     }
   };
 
-  // Combine players and guests for selection
-  const allPlayers = [...roomData.players, ...roomData.guests];
+  const handleRoomModeChange = (mode: RoomMode) => {
+    const currentSocket = getCurrentSocket();
+    if (currentSocket) {
+      currentSocket.emit("set-room-mode", { mode });
+    }
+  };
+
+  const handleReorderQueue = (names: string[]) => {
+    const currentSocket = getCurrentSocket();
+    if (currentSocket) {
+      currentSocket.emit("reorder-court-queue", { names });
+    }
+  };
+
+  const handleTransferHost = (playerId: string) => {
+    const currentSocket = getCurrentSocket();
+    if (currentSocket) {
+      currentSocket.emit("transfer-host", { playerId });
+    }
+  };
+
+  // Pick (or unpick) who takes over if the host leaves
+  const handleToggleSuccessor = (player: Player) => {
+    const currentSocket = getCurrentSocket();
+    if (currentSocket) {
+      currentSocket.emit("set-successor", {
+        playerId: player.name === roomData.successorName ? null : player.id,
+      });
+    }
+  };
+
+  // Host moderation: kick-player or ban-player (kicked for good)
+  const handleRemovePlayer = (player: Player, ban: boolean) => {
+    const action = ban ? "vetar" : "expulsar";
+    if (!window.confirm(`¿Seguro que quieres ${action} a ${player.name}?`)) {
+      return;
+    }
+    const currentSocket = getCurrentSocket();
+    if (currentSocket) {
+      currentSocket.emit(ban ? "ban-player" : "kick-player", {
+        playerId: player.id,
+      });
+    }
+  };
+
+  const handleToggleLock = () => {
+    const currentSocket = getCurrentSocket();
+    if (currentSocket) {
+      currentSocket.emit("lock-room", { locked: !roomData.isLocked });
+    }
+  };
+
+  const renderModerationButtons = (player: Player) => (
+    <>
+      <button
+        type="button"
+        title="Expulsar"
+        aria-label={`Expulsar a ${player.name}`}
+        onClick={() => handleRemovePlayer(player, false)}
+        className="text-xs bg-red-700 hover:bg-red-600 px-2 py-1 rounded"
+      >
+        ✖
+      </button>
+      <button
+        type="button"
+        title="Vetar (no puede volver a entrar)"
+        aria-label={`Vetar a ${player.name}`}
+        onClick={() => handleRemovePlayer(player, true)}
+        className="text-xs bg-red-900 hover:bg-red-800 px-2 py-1 rounded"
+      >
+        ⛔
+      </button>
+    </>
+  );
+
+  const tournament = roomData.tournament;
+  const isTournamentRunning =
+    !!tournament &&
+    (tournament.currentMatchId !== null || tournament.nextMatchAt !== null);
+
+  // The whole room plays, matches are scheduled by the server
+  const handleStartTournament = () => {
+    const currentSocket = getCurrentSocket();
+    if (currentSocket && isHost && !isTournamentRunning) {
+      currentSocket.emit("start-tournament", {
+        format: tournamentFormat,
+        rules,
+      });
+    }
+  };
+
+  // Combine players and guests for selection; spectators only watch
+  const allPlayers = [...roomData.players, ...roomData.guests].filter(
+    (player) => player.role !== "spectator"
+  );
+  const spectators = roomData.guests.filter(
+    (player) => player.role === "spectator"
+  );
 
   return (
     <div className="min-auto" style={{ backgroundColor: "#1E1B1E" }}>
@@ -87,7 +238,8 @@ function RoomLobby({
           style={{ backgroundColor: "#2A252A" }}
         >
           <h2 className="text-2xl font-bold mb-6 text-center">
-            Sala de Espera {isHost && "(Anfitrión)"}
+            Sala de Espera {isHost && "(Anfitrión)"}{" "}
+            {roomData.isLocked && <span title="Sala cerrada">🔒</span>}
           </h2>
 
           <div className="mb-6">
@@ -113,60 +265,266 @@ function RoomLobby({
                   }
                 }
 
+                const canModerate = isHost && !player.isHost;
+                const canHost = canModerate && player.isActive;
+                const isSuccessor = player.name === roomData.successorName;
+
                 return (
-                  <button
-                    key={player.id}
-                    type="button"
-                    tabIndex={0}
-                    aria-pressed={isSelected}
-                    className={`bg-gray-700 p-3 rounded-lg border border-gray-600 transition-all duration-300 ${selectedClass} ${
-                      isHost ? "cursor-pointer hover:bg-gray-600" : ""
-                    } w-full text-left`}
-                    onClick={
-                      isHost ? () => handlePlayerSelect(player.id) : undefined
-                    }
-                    onKeyDown={
-                      isHost
-                        ? (e) => {
-                            if (e.key === "Enter" || e.key === " ") {
-                              handlePlayerSelect(player.id);
+                  <div key={player.id} className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      tabIndex={0}
+                      aria-pressed={isSelected}
+                      className={`bg-gray-700 p-3 rounded-lg border border-gray-600 transition-all duration-300 ${selectedClass} ${
+                        isHost ? "cursor-pointer hover:bg-gray-600" : ""
+                      } flex-1 text-left`}
+                      onClick={
+                        isHost ? () => handlePlayerSelect(player.id) : undefined
+                      }
+                      onKeyDown={
+                        isHost
+                          ? (e) => {
+                              if (e.key === "Enter" || e.key === " ") {
+                                handlePlayerSelect(player.id);
+                              }
                             }
-                          }
-                        : undefined
-                    }
-                  >
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-3">
-                        <div
-                          className={`w-3 h-3 rounded-full ${
-                            player.isActive ? "bg-green-400" : "bg-gray-500"
-                          }`}
-                        ></div>
-                        <span className="font-medium">{player.name}</span>
-                        {player.isHost && (
-                          <span className="text-xs bg-cyan-600 text-white px-2 py-1 rounded">
-                            Anfitrión
-                          </span>
+                          : undefined
+                      }
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3">
+                          <div
+                            className={`w-3 h-3 rounded-full ${
+                              player.isActive ? "bg-green-400" : "bg-gray-500"
+                            }`}
+                          ></div>
+                          <span className="font-medium">{player.name}</span>
+                          {!player.isActive && (
+                            <span className="text-xs text-yellow-400">
+                              reconectando…
+                            </span>
+                          )}
+                          {player.isHost && (
+                            <span className="text-xs bg-cyan-600 text-white px-2 py-1 rounded">
+                              Anfitrión
+                            </span>
+                          )}
+                          {isSuccessor && (
+                            <span className="text-xs bg-gray-600 text-white px-2 py-1 rounded">
+                              Sucesor
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    </button>
+                    {canModerate && (
+                      <div className="grid grid-cols-2 gap-1">
+                        {canHost && (
+                          <>
+                            <button
+                              type="button"
+                              title="Ceder el anfitrión"
+                              aria-label={`Ceder el anfitrión a ${player.name}`}
+                              onClick={() => handleTransferHost(player.id)}
+                              className="text-xs bg-cyan-700 hover:bg-cyan-600 px-2 py-1 rounded"
+                            >
+                              👑
+                            </button>
+                            <button
+                              type="button"
+                              title={
+                                isSuccessor
+                                  ? "Quitar como sucesor"
+                                  : "Elegir como sucesor"
+                              }
+                              aria-pressed={isSuccessor}
+                              aria-label={`Elegir a ${player.name} como sucesor`}
+                              onClick={() => handleToggleSuccessor(player)}
+                              className={`text-xs px-2 py-1 rounded ${
+                                isSuccessor
+                                  ? "bg-gray-500 hover:bg-gray-400"
+                                  : "bg-gray-700 hover:bg-gray-600"
+                              }`}
+                            >
+                              ⤴
+                            </button>
+                          </>
                         )}
+                        {renderModerationButtons(player)}
                       </div>
-                    </div>
-                  </button>
+                    )}
+                  </div>
                 );
               })}
             </div>
           </div>
 
+          {spectators.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-lg font-semibold mb-3 text-purple-400">
+                Espectadores ({spectators.length})
+              </h3>
+              <div className="flex flex-wrap gap-2">
+                {spectators.map((spectator) => (
+                  <span
+                    key={spectator.id}
+                    className="text-sm bg-gray-700 border border-gray-600 px-2 py-1 rounded flex items-center gap-1"
+                  >
+                    {spectator.name}
+                    {!spectator.isActive && (
+                      <span className="text-yellow-400"> (reconectando…)</span>
+                    )}
+                    {isHost && renderModerationButtons(spectator)}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {tournament && (
+            <div className="mb-6">
+              <TournamentBracket tournament={tournament} />
+            </div>
+          )}
+
+          {isKingOfTheCourt && roomData.courtQueue && (
+            <div className="mb-6">
+              <CourtQueuePanel
+                courtQueue={roomData.courtQueue}
+                isHost={isHost}
+                onReorder={handleReorderQueue}
+              />
+            </div>
+          )}
+
           <div className="text-center space-y-4">
             {isHost && (
               <>
-                <p className="mb-4">
-                  Jugadores seleccionados: {selectedPlayers.length}/2
-                </p>
+                <div className="text-left bg-gray-700 p-4 rounded-lg border border-gray-600 space-y-3">
+                  <h3 className="text-lg font-semibold text-cyan-400">
+                    Reglas de la Partida
+                  </h3>
+                  <div className="flex items-center justify-between">
+                    <label htmlFor="room-mode-select" className="text-sm">
+                      Modo de sala:
+                    </label>
+                    <select
+                      id="room-mode-select"
+                      value={roomData.mode ?? "host-pick"}
+                      onChange={(e) =>
+                        handleRoomModeChange(e.target.value as RoomMode)
+                      }
+                      className="bg-gray-800 border border-gray-600 rounded px-2 py-1"
+                    >
+                      {(Object.keys(ROOM_MODE_LABELS) as RoomMode[]).map(
+                        (mode) => (
+                          <option key={mode} value={mode}>
+                            {ROOM_MODE_LABELS[mode]}
+                          </option>
+                        )
+                      )}
+                    </select>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <label htmlFor="target-score-select" className="text-sm">
+                      Puntos para ganar:
+                    </label>
+                    <select
+                      id="target-score-select"
+                      value={rules.targetScore}
+                      onChange={(e) =>
+                        updateRule("targetScore", Number(e.target.value))
+                      }
+                      className="bg-gray-800 border border-gray-600 rounded px-2 py-1"
+                    >
+                      {TARGET_SCORE_OPTIONS.map((score) => (
+                        <option key={score} value={score}>
+                          {score}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <label htmlFor="ball-speed-select" className="text-sm">
+                      Velocidad de la pelota:
+                    </label>
+                    <select
+                      id="ball-speed-select"
+                      value={rules.ballSpeed}
+                      onChange={(e) =>
+                        updateRule("ballSpeed", Number(e.target.value))
+                      }
+                      className="bg-gray-800 border border-gray-600 rounded px-2 py-1"
+                    >
+                      {BALL_SPEED_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <label htmlFor="paddle-height-select" className="text-sm">
+                      Tamaño de la paleta:
+                    </label>
+                    <select
+                      id="paddle-height-select"
+                      value={rules.paddleHeight}
+                      onChange={(e) =>
+                        updateRule("paddleHeight", Number(e.target.value))
+                      }
+                      className="bg-gray-800 border border-gray-600 rounded px-2 py-1"
+                    >
+                      {PADDLE_HEIGHT_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <label
+                    htmlFor="win-by-two-checkbox"
+                    className="flex items-center justify-between text-sm"
+                  >
+                    Ganar por diferencia de dos:
+                    <input
+                      id="win-by-two-checkbox"
+                      type="checkbox"
+                      checked={rules.winByTwo}
+                      onChange={(e) => updateRule("winByTwo", e.target.checked)}
+                      className="w-4 h-4"
+                    />
+                  </label>
+                  <div className="flex items-center justify-between">
+                    <label htmlFor="snapshot-rate-select" className="text-sm">
+                      Actualizaciones por segundo:
+                    </label>
+                    <select
+                      id="snapshot-rate-select"
+                      value={roomData.snapshotRate ?? 60}
+                      onChange={(e) =>
+                        handleSnapshotRateChange(Number(e.target.value))
+                      }
+                      className="bg-gray-800 border border-gray-600 rounded px-2 py-1"
+                    >
+                      {SNAPSHOT_RATE_OPTIONS.map((rate) => (
+                        <option key={rate} value={rate}>
+                          {rate} Hz
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                {!isKingOfTheCourt && (
+                  <p className="mb-4">
+                    Jugadores seleccionados: {selectedPlayers.length}/2
+                  </p>
+                )}
                 <button
                   onClick={handleStartGame}
-                  disabled={selectedPlayers.length !== 2 || isStartingGame}
+                  disabled={!canStartGame || isStartingGame}
                   className={`w-full py-2 px-4 rounded-md transition duration-200 font-semibold ${
-                    selectedPlayers.length === 2 && !isStartingGame
+                    canStartGame && !isStartingGame
                       ? "bg-green-600 hover:bg-green-700 text-white"
                       : isStartingGame
                       ? "bg-yellow-600 text-white"
@@ -174,30 +532,80 @@ function RoomLobby({
                   }`}
                   style={{
                     pointerEvents:
-                      selectedPlayers.length === 2 && !isStartingGame
+                      canStartGame && !isStartingGame
                         ? "auto"
                         : "none",
                     opacity:
-                      selectedPlayers.length === 2 && !isStartingGame ? 1 : 0.5,
+                      canStartGame && !isStartingGame ? 1 : 0.5,
                     position: "relative",
                     zIndex: 10,
                   }}
                 >
                   {isStartingGame
                     ? "Iniciando..."
+                    : isKingOfTheCourt
+                    ? "Iniciar Rotación"
                     : `Iniciar Juego${
                         selectedPlayers.length !== 2
                           ? ` (${selectedPlayers.length}/2)`
                           : ""
                       }`}
                 </button>
+                {!isKingOfTheCourt && (
+                  <div className="flex items-center space-x-2">
+                    <select
+                      id="tournament-format-select"
+                      aria-label="Formato del torneo"
+                      value={tournamentFormat}
+                      onChange={(e) =>
+                        setTournamentFormat(e.target.value as TournamentFormat)
+                      }
+                      className="bg-gray-800 border border-gray-600 rounded px-2 py-2"
+                    >
+                      {(
+                        Object.keys(TOURNAMENT_FORMAT_LABELS) as TournamentFormat[]
+                      ).map((format) => (
+                        <option key={format} value={format}>
+                          {TOURNAMENT_FORMAT_LABELS[format]}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleStartTournament}
+                      disabled={allPlayers.length < 2 || isTournamentRunning}
+                      className={`flex-1 py-2 px-4 rounded-md transition duration-200 font-semibold ${
+                        allPlayers.length >= 2 && !isTournamentRunning
+                          ? "bg-purple-600 hover:bg-purple-700 text-white"
+                          : "bg-gray-600 cursor-not-allowed text-gray-300"
+                      }`}
+                    >
+                      {isTournamentRunning
+                        ? "Torneo en curso"
+                        : `Iniciar Torneo (${allPlayers.length})`}
+                    </button>
+                  </div>
+                )}
               </>
             )}
+            {isHost && (
+              <button
+                type="button"
+                onClick={handleToggleLock}
+                aria-pressed={!!roomData.isLocked}
+                className="w-full bg-gray-600 hover:bg-gray-500 text-white py-2 px-4 rounded-md transition duration-200 font-semibold"
+              >
+                {roomData.isLocked
+                  ? "🔒 Sala cerrada (abrir)"
+                  : "🔓 Cerrar la sala a nuevos jugadores"}
+              </button>
+            )}
             <button
               onClick={onExitRoom}
               className="w-full bg-red-600 hover:bg-red-700 text-white py-2 px-4 rounded-md transition duration-200 font-semibold"
             >
-              {isHost ? "Eliminar Sala" : "Salir de la Sala"}
+              {isHost && allPlayers.length + spectators.length <= 1
+                ? "Eliminar Sala"
+                : "Salir de la Sala"}
             </button>
           </div>
         </div>
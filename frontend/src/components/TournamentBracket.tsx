@@ -0,0 +1,160 @@
+export type TournamentFormat = "single-elimination" | "round-robin";
+
+interface TournamentMatch {
+  id: number;
+  round: number;
+  player1: string | null;
+  player2: string | null;
+  status: "waiting" | "ready" | "playing" | "finished" | "walkover";
+  winner: string | null;
+  scores: { player1: number; player2: number } | null;
+}
+
+interface TournamentStanding {
+  id: string;
+  name: string;
+  played: number;
+  wins: number;
+  losses: number;
+  pointsFor: number;
+  pointsAgainst: number;
+}
+
+export interface TournamentData {
+  format: TournamentFormat;
+  entrants: { id: string; name: string; withdrawn: boolean }[];
+  matches: TournamentMatch[];
+  currentMatchId: number | null;
+  champion: string | null;
+  nextMatchAt: number | null;
+  standings: TournamentStanding[];
+}
+
+export const TOURNAMENT_FORMAT_LABELS: Record<TournamentFormat, string> = {
+  "single-elimination": "Eliminación directa",
+  "round-robin": "Todos contra todos",
+};
+
+interface TournamentBracketProps {
+  tournament: TournamentData;
+}
+
+function TournamentBracket({ tournament }: Readonly<TournamentBracketProps>) {
+  const nameOf = (id: string | null, fallback: string) =>
+    tournament.entrants.find((entrant) => entrant.id === id)?.name ??
+    fallback;
+
+  const rounds: TournamentMatch[][] = [];
+  tournament.matches.forEach((match) => {
+    rounds[match.round] = [...(rounds[match.round] || []), match];
+  });
+
+  const roundTitle = (round: number) => {
+    if (tournament.format === "round-robin") return `Jornada ${round + 1}`;
+    const remaining = rounds.length - round;
+    if (remaining === 1) return "Final";
+    if (remaining === 2) return "Semifinal";
+    return `Ronda ${round + 1}`;
+  };
+
+  const renderMatch = (match: TournamentMatch) => {
+    const isCurrent = match.id === tournament.currentMatchId;
+    const emptySlot = match.status === "waiting" ? "Por definir" : "Libre";
+    const sides = [
+      { id: match.player1, score: match.scores?.player1 },
+      { id: match.player2, score: match.scores?.player2 },
+    ];
+
+    return (
+      <div
+        key={match.id}
+        className={`bg-gray-800 p-2 rounded border text-sm ${
+          isCurrent ? "border-green-400" : "border-gray-600"
+        }`}
+      >
+        {sides.map((side, index) => (
+          <div
+            key={index}
+            className={`flex justify-between ${
+              match.winner && match.winner === side.id
+                ? "text-cyan-400 font-semibold"
+                : "text-gray-300"
+            }`}
+          >
+            <span>{nameOf(side.id, emptySlot)}</span>
+            <span>{side.score ?? ""}</span>
+          </div>
+        ))}
+        {isCurrent && (
+          <p className="text-xs text-green-400 mt-1">Jugando ahora</p>
+        )}
+        {match.status === "walkover" && match.winner && (
+          <p className="text-xs text-gray-400 mt-1">Pasa sin jugar</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="text-left bg-gray-700 p-4 rounded-lg border border-gray-600 space-y-3">
+      <h3 className="text-lg font-semibold text-cyan-400">
+        Torneo: {TOURNAMENT_FORMAT_LABELS[tournament.format]}
+      </h3>
+
+      {tournament.champion && (
+        <p className="text-center font-bold text-yellow-400">
+          🏆 Campeón: {nameOf(tournament.champion, "?")}
+        </p>
+      )}
+      {!tournament.champion && tournament.nextMatchAt !== null && (
+        <p className="text-center text-sm text-gray-300">
+          El siguiente partido empieza en unos segundos...
+        </p>
+      )}
+
+      {tournament.format === "round-robin" && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-400">
+              <th className="text-left">Jugador</th>
+              <th>PJ</th>
+              <th>G</th>
+              <th>P</th>
+              <th>+/-</th>
+            </tr>
+          </thead>
+          <tbody>
+            {tournament.standings.map((standing) => (
+              <tr key={standing.id} className="text-center">
+                <td className="text-left">{standing.name}</td>
+                <td>{standing.played}</td>
+                <td>{standing.wins}</td>
+                <td>{standing.losses}</td>
+                <td>{standing.pointsFor - standing.pointsAgainst}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div
+        className={`space-y-3 ${
+          tournament.matches.length > 6 ? "max-h-64 overflow-y-auto" : ""
+        }`}
+      >
+        {rounds.map((matches, round) => (
+          <div key={round}>
+            <h4 className="text-sm font-semibold text-gray-400 mb-1">
+              {roundTitle(round)}
+            </h4>
+            <div className="grid grid-cols-2 gap-2">
+              {matches.map(renderMatch)}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default TournamentBracket;
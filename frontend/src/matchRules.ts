@@ -0,0 +1,28 @@
+// Match rules chosen by the host (mirrors backend/game/rules.ts)
+export interface MatchRules {
+  targetScore: number;
+  ballSpeed: number;
+  paddleHeight: number;
+  winByTwo: boolean;
+}
+
+export const DEFAULT_MATCH_RULES: MatchRules = {
+  targetScore: 5,
+  ballSpeed: 500,
+  paddleHeight: 100,
+  winByTwo: false,
+};
+
+export const TARGET_SCORE_OPTIONS = [3, 5, 7, 11, 21];
+
+export const BALL_SPEED_OPTIONS = [
+  { label: "Lenta", value: 350 },
+  { label: "Normal", value: 500 },
+  { label: "Rápida", value: 800 },
+];
+
+export const PADDLE_HEIGHT_OPTIONS = [
+  { label: "Pequeña", value: 60 },
+  { label: "Normal", value: 100 },
+  { label: "Grande", value: 150 },
+];
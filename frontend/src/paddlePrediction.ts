@@ -0,0 +1,66 @@
+// Client-side paddle prediction. Paddle movement here mirrors the server
+// (backend/game/physics.ts) tick for tick, so replaying the inputs the server
+// has not processed yet on top of its authoritative paddle position lands
+// exactly where the server will end up.
+
+export const TICK_RATE = 120;
+export const TICK_DT = 1 / TICK_RATE;
+export const TICK_MS = 1000 / TICK_RATE;
+export const MAX_PADDLE_SPEED = 720; // Pixels per second
+export const MAX_INPUT_TICKS = 8; // Server rejects inputs covering more ticks
+
+const FIELD_HEIGHT = 600;
+
+export type PaddleDirection = -1 | 0 | 1;
+
+export interface PendingInput {
+  sequence: number;
+  direction: PaddleDirection;
+  ticks: number;
+}
+
+// Echoed by the server in game-update: the input it is applying and how many
+// of that input's ticks it has already run
+export interface InputAck {
+  sequence: number;
+  ticks: number;
+}
+
+export const movePaddle = (
+  y: number,
+  direction: PaddleDirection,
+  ticks: number,
+  paddleHeight: number
+): number => {
+  const maxY = FIELD_HEIGHT - paddleHeight;
+  const delta = direction * (MAX_PADDLE_SPEED * TICK_DT);
+  let next = y;
+  for (let i = 0; i < ticks; i++) {
+    next = Math.min(Math.max(next + delta, 0), maxY);
+  }
+  return next;
+};
+
+// Drop the inputs the server has fully processed and replay the rest on top
+// of the authoritative paddle position
+export const reconcile = (
+  serverY: number,
+  pending: PendingInput[],
+  ack: InputAck,
+  paddleHeight: number
+): { predictedY: number; pending: PendingInput[] } => {
+  const remaining = pending.filter(
+    (input) =>
+      input.sequence > ack.sequence ||
+      (input.sequence === ack.sequence && input.ticks > ack.ticks)
+  );
+
+  let predictedY = serverY;
+  for (const input of remaining) {
+    const ticks =
+      input.sequence === ack.sequence ? input.ticks - ack.ticks : input.ticks;
+    predictedY = movePaddle(predictedY, input.direction, ticks, paddleHeight);
+  }
+
+  return { predictedY, pending: remaining };
+};
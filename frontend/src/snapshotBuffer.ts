@@ -0,0 +1,101 @@
+// Snapshot interpolation for remote entities (the ball and the opponent's
+// paddle). Snapshots are kept in server-time order and rendered a fixed
+// delay behind the estimated server time, so there are almost always two
+// snapshots around the render time to blend between. When packets are late
+// the ball is extrapolated from its last known velocity for a short while.
+
+export const DEFAULT_INTERPOLATION_DELAY_MS = 100;
+const MAX_EXTRAPOLATION_MS = 250;
+const BUFFER_DURATION_MS = 1000;
+
+const FIELD_HEIGHT = 600;
+const BALL_RADIUS = 10;
+
+export interface Snapshot {
+  time: number; // Server time the snapshot was taken, in milliseconds
+  ball: { x: number; y: number; vx: number; vy: number };
+  paddles: { player1: number; player2: number };
+  scores: { player1: number; player2: number };
+}
+
+export interface RenderState {
+  ball: { x: number; y: number };
+  paddles: { player1: number; player2: number };
+}
+
+const lerp = (from: number, to: number, t: number): number =>
+  from + (to - from) * t;
+
+// Insert a snapshot keeping the buffer ordered by time, and drop snapshots
+// too old to ever be rendered again
+export const pushSnapshot = (
+  buffer: Snapshot[],
+  snapshot: Snapshot
+): Snapshot[] => {
+  const newest = buffer[buffer.length - 1];
+  if (newest && snapshot.time <= newest.time) {
+    // Out of order or duplicate: ignore, a newer one already arrived
+    return buffer;
+  }
+
+  const cutoff = snapshot.time - BUFFER_DURATION_MS;
+  return [...buffer.filter((entry) => entry.time >= cutoff), snapshot];
+};
+
+const extrapolate = (snapshot: Snapshot, renderTime: number): RenderState => {
+  const elapsed =
+    Math.min(renderTime - snapshot.time, MAX_EXTRAPOLATION_MS) / 1000;
+  const y = snapshot.ball.y + snapshot.ball.vy * elapsed;
+
+  return {
+    ball: {
+      x: snapshot.ball.x + snapshot.ball.vx * elapsed,
+      y: Math.min(Math.max(y, BALL_RADIUS), FIELD_HEIGHT - BALL_RADIUS),
+    },
+    paddles: { ...snapshot.paddles },
+  };
+};
+
+// State to draw at `renderTime` (server clock, already minus the delay)
+export const sampleSnapshots = (
+  buffer: Snapshot[],
+  renderTime: number
+): RenderState | null => {
+  if (buffer.length === 0) return null;
+
+  const oldest = buffer[0];
+  const newest = buffer[buffer.length - 1];
+
+  if (renderTime <= oldest.time) {
+    return { ball: { ...oldest.ball }, paddles: { ...oldest.paddles } };
+  }
+  if (renderTime >= newest.time) {
+    return extrapolate(newest, renderTime);
+  }
+
+  let index = buffer.length - 2;
+  while (index > 0 && buffer[index].time > renderTime) {
+    index--;
+  }
+  const from = buffer[index];
+  const to = buffer[index + 1];
+  const t = (renderTime - from.time) / (to.time - from.time);
+
+  // A point was scored in between: the ball was re-served at the center,
+  // so blending the two positions would slide it across the field
+  const scored =
+    from.scores.player1 !== to.scores.player1 ||
+    from.scores.player2 !== to.scores.player2;
+  const nearest = t < 0.5 ? from : to;
+  const ball = scored
+    ? { x: nearest.ball.x, y: nearest.ball.y }
+    : { x: lerp(from.ball.x, to.ball.x, t), y: lerp(from.ball.y, to.ball.y, t) };
+
+  return {
+    ball,
+    paddles: {
+      player1: lerp(from.paddles.player1, to.paddles.player1, t),
+      player2: lerp(from.paddles.player2, to.paddles.player2, t),
+    },
+  };
+};
@@ -0,0 +1,97 @@
+import { Socket } from "socket.io-client";
+import { InputAck } from "./paddlePrediction";
+import { readGameUpdate } from "./wireFormat";
+
+// Decodes the compact, delta-encoded game-update messages (mirrors
+// backend/game/snapshot.ts). Each message lists only the fields that changed
+// since a snapshot this client acknowledged, so decoded snapshots are kept
+// for a while to serve as baselines.
+
+export interface GameSnapshot {
+  tick: number;
+  timestamp: number;
+  ball: {
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+    lastTouched: "player1" | "player2" | null;
+  };
+  paddles: { player1: number; player2: number };
+  scores: { player1: number; player2: number };
+  rally: number;
+  winner: string | null;
+  lastProcessedInput: { player1: InputAck; player2: InputAck };
+}
+
+export interface SnapshotMessage {
+  tick: number;
+  baseTick: number | null; // null means the message is a full snapshot
+  timestamp: number;
+  changes: Record<string, unknown>;
+}
+
+const HISTORY_DURATION_TICKS = 240; // 2 seconds at 120 ticks per second
+const ACK_INTERVAL = 100; // Milliseconds between snapshot-ack messages
+
+let history = new Map<number, GameSnapshot>();
+let lastAckTime = 0;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const applyChanges = (base: unknown, changes: unknown): unknown => {
+  if (!isPlainObject(base) || !isPlainObject(changes)) {
+    return changes;
+  }
+  const result: Record<string, unknown> = { ...base };
+  for (const key of Object.keys(changes)) {
+    result[key] = applyChanges(base[key], changes[key]);
+  }
+  return result;
+};
+
+// Rebuild the full snapshot from a message, JSON or binary. Returns null
+// when the baseline it refers to is no longer known (the next full snapshot
+// will fix that).
+export const decodeSnapshot = (
+  data: SnapshotMessage | ArrayBuffer | ArrayBufferView
+): GameSnapshot | null => {
+  const message = readGameUpdate(data);
+  let fields: unknown = message.changes;
+  if (message.baseTick !== null) {
+    const base = history.get(message.baseTick);
+    if (!base) return null;
+    fields = applyChanges(base, message.changes);
+  }
+
+  const snapshot = {
+    ...(fields as GameSnapshot),
+    tick: message.tick,
+    timestamp: message.timestamp,
+  };
+
+  history.set(snapshot.tick, snapshot);
+  history.forEach((_, tick) => {
+    if (tick < snapshot.tick - HISTORY_DURATION_TICKS) {
+      history.delete(tick);
+    }
+  });
+
+  return snapshot;
+};
+
+// Let the server know it can delta-encode against this snapshot. Throttled:
+// any recent baseline is as good as the very latest.
+export const acknowledgeSnapshot = (socket: Socket, tick: number) => {
+  const now = Date.now();
+  if (now - lastAckTime < ACK_INTERVAL) return;
+  lastAckTime = now;
+  socket.emit("snapshot-ack", { tick });
+};
+
+// Forget all baselines (new game, or a new connection)
+export const resetSnapshots = () => {
+  history = new Map();
+  lastAckTime = 0;
+};
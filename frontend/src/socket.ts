@@ -1,19 +1,48 @@
 import io, { Socket } from "socket.io-client";
+import { startClockSync } from "./clockSync";
+import { REQUESTED_WIRE_FORMAT, resetWireFormat } from "./wireFormat";
 
 interface StoredRoomInfo {
   roomName: string;
   password: string;
   playerName: string;
+  asSpectator?: boolean;
+  // Issued by the server at room-joined; resumes this player on reconnect
+  sessionToken?: string;
+  // Seat in a public match, from match-found; used until the session above
+  matchToken?: string;
+}
+
+// Registered account this browser is logged in as
+export interface StoredAccount {
+  id: string;
+  username: string;
+  // Sent in the handshake of every connection to stay logged in
+  accountToken: string;
 }
 
 const DOMAIN = import.meta.env.VITE_DOMAIN;
 
-const SERVERS = [
-  `${DOMAIN}:${import.meta.env.VITE_SERVER_PORT || "3001"}`,
-  `${DOMAIN}:${import.meta.env.VITE_BACKUP_SERVER_PORT || "3002"}`,
-];
+// Known entry points: asked for the list of live servers, and used
+// directly when none of them answers
+const SEED_SERVERS = import.meta.env.VITE_DISCOVERY_URLS
+  ? import.meta.env.VITE_DISCOVERY_URLS.split(",")
+      .map((url) => url.trim())
+      .filter(Boolean)
+  : [
+      `${DOMAIN}:${import.meta.env.VITE_SERVER_PORT || "3001"}`,
+      `${DOMAIN}:${import.meta.env.VITE_BACKUP_SERVER_PORT || "3002"}`,
+    ];
+
+const DISCOVERY_TIMEOUT_MS = 3000;
+
+// Servers to connect to, in order: the leader first, then the rest
+let SERVERS: string[] = SEED_SERVERS;
 
 let currentSocket: Socket | null = null;
+// Room the current socket was opened for: the gateway routes sockets by
+// their ?room= so that every player of a room lands on the same server
+let currentSocketRoom: string | null = null;
 let currentServerIndex = 0;
 let reconnectAttempts = 0;
 const maxReconnectAttempts = 10;
@@ -77,8 +106,64 @@ const clearStoredRoomInfo = () => {
   }
 };
 
-// Try to connect to the next server in the list
-const tryNextServer = async (): Promise<Socket | null> => {
+export const getStoredAccount = (): StoredAccount | null => {
+  try {
+    const stored = localStorage.getItem("pong-account");
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+const storeAccount = (account: StoredAccount) => {
+  try {
+    localStorage.setItem("pong-account", JSON.stringify(account));
+  } catch (error) {
+    console.warn("Failed to store account:", error);
+  }
+};
+
+const clearStoredAccount = () => {
+  try {
+    localStorage.removeItem("pong-account");
+  } catch (error) {
+    console.warn("Failed to clear account:", error);
+  }
+};
+
+const unique = (urls: string[]) =>
+  urls.filter((url, index) => urls.indexOf(url) === index);
+
+// Ask the seeds for the live servers. The seeds stay at the end of the list
+// as a last resort; if no seed answers, the list is left as it was.
+const discoverServers = async (): Promise<void> => {
+  for (const seed of SEED_SERVERS) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), DISCOVERY_TIMEOUT_MS);
+    try {
+      const response = await fetch(`${seed}/servers`, {
+        signal: controller.signal,
+      });
+      if (!response.ok) continue;
+
+      const { servers } = await response.json();
+      const addresses: string[] = servers.map(
+        (server: { address: string }) => server.address
+      );
+      SERVERS = unique([...addresses, ...SEED_SERVERS]);
+      currentServerIndex = 0;
+      return;
+    } catch (error) {
+      console.warn(`Server discovery via ${seed} failed:`, error);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+};
+
+// Try to connect to the next server in the list, routed to the room's
+// server when there is one
+const tryNextServer = async (roomName?: string): Promise<Socket | null> => {
   if (currentServerIndex >= SERVERS.length) {
     console.error("All servers are unavailable");
     return null;
@@ -89,6 +174,11 @@ const tryNextServer = async (): Promise<Socket | null> => {
     const socket = io(serverUrl, {
       timeout: 5000,
       reconnection: false, // We handle reconnection manually
+      query: roomName ? { room: roomName } : undefined,
+      auth: {
+        wireFormat: REQUESTED_WIRE_FORMAT,
+        accountToken: getStoredAccount()?.accountToken,
+      },
     });
 
     const timeout = setTimeout(() => {
@@ -110,7 +200,7 @@ const tryNextServer = async (): Promise<Socket | null> => {
       currentServerIndex++;
       if (currentServerIndex < SERVERS.length) {
         setTimeout(() => {
-          tryNextServer().then(resolve).catch(reject);
+          tryNextServer(roomName).then(resolve).catch(reject);
         }, 1000);
       } else {
         reject(new Error("All servers failed"));
@@ -119,54 +209,6 @@ const tryNextServer = async (): Promise<Socket | null> => {
   });
 };
 
-// Try to connect to Server A first (for room creation priority)
-const tryServerAFirst = async (): Promise<Socket | null> => {
-  const serverAUrl = SERVERS[0]; // Always try Server A first
-
-  return new Promise((resolve, reject) => {
-    const socket = io(serverAUrl, {
-      timeout: 5000,
-      reconnection: false,
-    });
-
-    const timeout = setTimeout(() => {
-      socket.disconnect();
-      reject(new Error("Server A connection timeout"));
-    }, 5000);
-
-    socket.on("connect", () => {
-      clearTimeout(timeout);
-      resolve(socket);
-    });
-
-    socket.on("connect_error", (error) => {
-      clearTimeout(timeout);
-      // Try Server B as fallback
-      const serverBUrl = SERVERS[1];
-
-      const fallbackSocket = io(serverBUrl, {
-        timeout: 5000,
-        reconnection: false,
-      });
-
-      const fallbackTimeout = setTimeout(() => {
-        fallbackSocket.disconnect();
-        reject(new Error("Both Server A and Server B failed"));
-      }, 5000);
-
-      fallbackSocket.on("connect", () => {
-        clearTimeout(fallbackTimeout);
-        resolve(fallbackSocket);
-      });
-
-      fallbackSocket.on("connect_error", (fallbackError) => {
-        clearTimeout(fallbackTimeout);
-        reject(new Error("Both Server A and Server B failed"));
-      });
-    });
-  });
-};
-
 // Handle socket disconnection and auto-reconnect
 const handleDisconnection = async () => {
   if (reconnectAttempts >= maxReconnectAttempts) {
@@ -183,10 +225,14 @@ const handleDisconnection = async () => {
   }
 
   try {
-    const newSocket = await tryNextServer();
+    // The server we lost may be gone for good: refresh the list first
+    await discoverServers();
+    const roomInfo = getStoredRoomInfo();
+    const newSocket = await tryNextServer(roomInfo?.roomName);
 
     if (newSocket) {
       currentSocket = newSocket;
+      currentSocketRoom = roomInfo?.roomName ?? null;
 
       // Also update the backward compatibility socket variable
       socket = newSocket;
@@ -196,7 +242,6 @@ const handleDisconnection = async () => {
       setupSocketEvents(newSocket);
 
       // Rejoin room if we have stored room info
-      const roomInfo = getStoredRoomInfo();
       if (roomInfo) {
         setTimeout(() => {
           newSocket.emit("join-room", roomInfo);
@@ -215,37 +260,90 @@ const handleDisconnection = async () => {
 
 // Setup event listeners for the socket
 const setupSocketEvents = (socket: Socket) => {
-  // Store original disconnect handler
-  const originalDisconnect = () => {
+  // Store original disconnect handler; sockets we close ourselves (replaced
+  // by one for another room) are not reconnected
+  const originalDisconnect = (reason: Socket.DisconnectReason) => {
+    if (reason === "io client disconnect") return;
     handleDisconnection();
   };
 
   socket.on("disconnect", originalDisconnect);
 
-  // Store room info when successfully joining a room
+  // Keep the session token so a reconnect (to any server) resumes the same
+  // player instead of joining again by name
   socket.on("room-joined", (data) => {
     if (data.success) {
       const roomInfo = getStoredRoomInfo();
       if (roomInfo) {
-        storeRoomInfo(roomInfo);
+        storeRoomInfo({ ...roomInfo, sessionToken: data.sessionToken });
       }
     }
   });
 
+  // Remember the login for the next connections, or forget it when the
+  // server no longer knows it
+  socket.on("logged-in", (data) => {
+    if (data.success) {
+      storeAccount({ ...data.account, accountToken: data.accountToken });
+    }
+  });
+
+  socket.on("logged-out", () => {
+    clearStoredAccount();
+  });
+
   // Clear stored room info when leaving room
   socket.on("room-deleted", () => {
     clearStoredRoomInfo();
   });
 
+  // Paired by matchmaking: take our seat on the server the match's room
+  // routes to, and remember the room like one joined by hand, so the
+  // session token from room-joined lets us back in after a reconnect
+  socket.on("match-found", (data) => {
+    const roomInfo: StoredRoomInfo = {
+      roomName: data.room,
+      password: "",
+      playerName: data.playerName,
+      matchToken: data.matchToken,
+    };
+    storeRoomInfo(roomInfo);
+    connectToRoom(data.room)
+      .then(({ socket: roomSocket, isNew }) => {
+        setPlayerSocket(data.playerName, roomSocket);
+        emitJoinRoom(roomSocket, isNew, roomInfo);
+      })
+      .catch((error) => {
+        console.error("Failed to reach the match's server:", error);
+      });
+  });
+
+  // The match fell through before it started
+  socket.on("match-cancelled", () => {
+    clearStoredRoomInfo();
+  });
+
+  // Kicked out by the host: don't rejoin on the next reconnect
+  socket.on("kicked", () => {
+    clearStoredRoomInfo();
+  });
+
   // Handle other socket events normally
   socket.on("connect_error", (error) => {
     console.error("Connection error:", error);
   });
+
+  // Game messages start as JSON until this server proves it speaks binary
+  resetWireFormat();
+
+  // Keep the server clock offset estimate fresh for snapshot interpolation
+  startClockSync(socket);
 };
 
 // Main connection function
 export const connectToServers = async (): Promise<Socket> => {
   try {
+    await discoverServers();
     const socket = await tryNextServer();
     if (!socket) {
       throw new Error("Failed to connect to any server");
@@ -261,47 +359,85 @@ export const connectToServers = async (): Promise<Socket> => {
   }
 };
 
-// Create room with Server A priority
+// Socket routed to the room's server: the current one if it was opened for
+// this room, otherwise a new connection that replaces it
+const connectToRoom = async (
+  roomName: string
+): Promise<{ socket: Socket; isNew: boolean }> => {
+  if (currentSocket?.connected && currentSocketRoom === roomName) {
+    return { socket: currentSocket, isNew: false };
+  }
+
+  await discoverServers();
+  const newSocket = await tryNextServer(roomName);
+  if (!newSocket) {
+    throw new Error("Failed to connect to any server for the room");
+  }
+
+  // Closed on purpose, so its disconnect does not trigger a reconnect
+  currentSocket?.disconnect();
+
+  currentSocket = newSocket;
+  currentSocketRoom = roomName;
+  socket = newSocket;
+  setupSocketEvents(newSocket);
+
+  return { socket: newSocket, isNew: true };
+};
+
+// Join on a socket; a new one waits for the app to pick it up (it polls
+// getCurrentSocket) so room-joined finds its listeners
+const emitJoinRoom = (
+  socket: Socket,
+  isNew: boolean,
+  roomInfo: StoredRoomInfo
+) => {
+  if (isNew) {
+    setTimeout(() => socket.emit("join-room", roomInfo), 1000);
+  } else {
+    socket.emit("join-room", roomInfo);
+  }
+};
+
+// Create a room on the server the gateway routes it to, where players
+// joining later gather too
 export const createRoomWithPriority = async (
   roomName: string,
   password: string,
   playerName: string
 ): Promise<Socket> => {
   try {
-    // Always try Server A first for room creation
-    const socket = await tryServerAFirst();
-
-    if (!socket) {
-      throw new Error("Failed to connect to any server for room creation");
-    }
+    const { socket, isNew } = await connectToRoom(roomName);
 
     // Set up player-specific socket management
     setPlayerSocket(playerName, socket);
-    setupSocketEvents(socket);
 
     // Store room info
     const roomInfo = { roomName, password, playerName };
     storeRoomInfo(roomInfo);
 
-    socket.emit("join-room", roomInfo);
+    emitJoinRoom(socket, isNew, roomInfo);
 
     return socket;
   } catch (error) {
-    console.error("Failed to create room with Server A priority:", error);
+    console.error("Failed to create room:", error);
     throw error;
   }
 };
 
-// Join room function with automatic storage
-export const joinRoom = (
-  socket: Socket,
+// Join room function with automatic storage, on a socket routed to the
+// room's server
+export const joinRoom = async (
   roomName: string,
   password: string,
-  playerName: string
-) => {
-  const roomInfo = { roomName, password, playerName };
+  playerName: string,
+  asSpectator = false
+): Promise<Socket> => {
+  const roomInfo = { roomName, password, playerName, asSpectator };
   storeRoomInfo(roomInfo);
 
+  const { socket, isNew } = await connectToRoom(roomName);
+
   // Set up player-specific socket management
   setPlayerSocket(playerName, socket);
 
@@ -314,7 +450,42 @@ export const joinRoom = (
     });
   }
 
-  socket.emit("join-room", roomInfo);
+  emitJoinRoom(socket, isNew, roomInfo);
+
+  return socket;
+};
+
+// Public matchmaking: match-searching while queued, then match-found (or
+// match-cancelled)
+export const findMatch = (socket: Socket, playerName: string) => {
+  socket.emit("find-match", { playerName });
+};
+
+export const cancelMatch = (socket: Socket) => {
+  socket.emit("cancel-match");
+};
+
+// Accounts: the answer comes back as logged-in
+export const register = (
+  socket: Socket,
+  username: string,
+  password: string
+) => {
+  socket.emit("register", { username, password });
+};
+
+export const logIn = (socket: Socket, username: string, password: string) => {
+  socket.emit("login", { username, password });
+};
+
+export const logOut = (socket: Socket) => {
+  socket.emit("logout");
+};
+
+// A finished match's replay, by its match history id: the answer comes back
+// as replay
+export const getReplay = (socket: Socket, matchId: string) => {
+  socket.emit("get-replay", { matchId });
 };
 
 // Leave room function with storage cleanup
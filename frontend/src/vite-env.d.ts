@@ -3,7 +3,11 @@
 interface ImportMetaEnv {
   readonly VITE_DOMAIN: string
   readonly VITE_SERVER_PORT: string
+  readonly VITE_BACKUP_SERVER_PORT?: string
+  // Comma-separated seed servers for discovery (e.g. a load balancer)
+  readonly VITE_DISCOVERY_URLS?: string
   readonly VITE_FRONTEND_PORT: string
+  readonly VITE_WIRE_FORMAT?: string
 }
 
 interface ImportMeta {
@@ -0,0 +1,158 @@
+import { Socket } from "socket.io-client";
+import { PendingInput } from "./paddlePrediction";
+import { SnapshotMessage } from "./snapshotCodec";
+
+// Binary encoding of game-update and paddle-input (mirrors
+// backend/game/wireFormat.ts). The client asks for it in the handshake; the
+// server agrees by sending game-update as binary, and from then on inputs
+// go out binary too. Both encodings are always understood on either side.
+
+export type WireFormat = "json" | "binary";
+
+export const REQUESTED_WIRE_FORMAT: WireFormat =
+  import.meta.env.VITE_WIRE_FORMAT === "json" ? "json" : "binary";
+
+const HEADER_BYTES = 18;
+
+const utf8Decoder = new TextDecoder();
+
+const BALL_X = 1 << 0;
+const BALL_Y = 1 << 1;
+const BALL_VX = 1 << 2;
+const BALL_VY = 1 << 3;
+const BALL_LAST_TOUCHED = 1 << 4;
+const PADDLE_1 = 1 << 5;
+const PADDLE_2 = 1 << 6;
+const SCORE_1 = 1 << 7;
+const SCORE_2 = 1 << 8;
+const WINNER = 1 << 9;
+const INPUT_ACK_1 = 1 << 10;
+const INPUT_ACK_2 = 1 << 11;
+const RALLY = 1 << 12;
+
+const PADDLE_INPUT_BYTES = 11;
+const HAS_DIRECTION = 1 << 0;
+const HAS_TICKS = 1 << 2;
+
+const SIDES = [null, "player1", "player2"] as const;
+
+let negotiatedFormat: WireFormat = "json";
+
+// Back to JSON until a new connection's server shows it speaks binary
+export const resetWireFormat = () => {
+  negotiatedFormat = "json";
+};
+
+const isBinaryPayload = (
+  data: unknown
+): data is ArrayBuffer | ArrayBufferView =>
+  data instanceof ArrayBuffer || ArrayBuffer.isView(data);
+
+const decodeSnapshotBinary = (
+  data: ArrayBuffer | ArrayBufferView
+): SnapshotMessage => {
+  const view = ArrayBuffer.isView(data)
+    ? new DataView(data.buffer, data.byteOffset, data.byteLength)
+    : new DataView(data);
+
+  const tick = view.getUint32(0, true);
+  const timestamp = view.getFloat64(4, true);
+  const baseTick = view.getInt32(12, true);
+  const mask = view.getUint16(16, true);
+
+  let offset = HEADER_BYTES;
+  const readFloat = () => {
+    const value = view.getFloat32(offset, true);
+    offset += 4;
+    return value;
+  };
+  const readUint16 = () => {
+    const value = view.getUint16(offset, true);
+    offset += 2;
+    return value;
+  };
+  const readInputAck = () => {
+    const sequence = view.getUint32(offset, true);
+    const ticks = view.getUint8(offset + 4);
+    offset += 5;
+    return { sequence, ticks };
+  };
+
+  const ball: Record<string, unknown> = {};
+  const paddles: Record<string, unknown> = {};
+  const scores: Record<string, unknown> = {};
+  const lastProcessedInput: Record<string, unknown> = {};
+  const changes: Record<string, unknown> = {};
+
+  if (mask & BALL_X) ball.x = readFloat();
+  if (mask & BALL_Y) ball.y = readFloat();
+  if (mask & BALL_VX) ball.vx = readFloat();
+  if (mask & BALL_VY) ball.vy = readFloat();
+  if (mask & BALL_LAST_TOUCHED) {
+    ball.lastTouched = SIDES[view.getUint8(offset)] ?? null;
+    offset += 1;
+  }
+  if (mask & PADDLE_1) paddles.player1 = readFloat();
+  if (mask & PADDLE_2) paddles.player2 = readFloat();
+  if (mask & SCORE_1) scores.player1 = readUint16();
+  if (mask & SCORE_2) scores.player2 = readUint16();
+  if (mask & WINNER) {
+    // UTF-8, as the server encodes it (names are not only ASCII)
+    const length = view.getUint8(offset);
+    const bytes = new Uint8Array(
+      view.buffer,
+      view.byteOffset + offset + 1,
+      length
+    );
+    changes.winner = length > 0 ? utf8Decoder.decode(bytes) : null;
+    offset += 1 + length;
+  }
+  if (mask & INPUT_ACK_1) lastProcessedInput.player1 = readInputAck();
+  if (mask & INPUT_ACK_2) lastProcessedInput.player2 = readInputAck();
+  if (mask & RALLY) changes.rally = readUint16();
+
+  const groups = { ball, paddles, scores, lastProcessedInput };
+  Object.keys(groups).forEach((key) => {
+    const group = groups[key as keyof typeof groups];
+    if (Object.keys(group).length > 0) {
+      changes[key] = group;
+    }
+  });
+
+  return {
+    tick,
+    timestamp,
+    baseTick: baseTick < 0 ? null : baseTick,
+    changes,
+  };
+};
+
+// Turn a game-update payload into a SnapshotMessage, whatever its encoding
+export const readGameUpdate = (
+  data: SnapshotMessage | ArrayBuffer | ArrayBufferView
+): SnapshotMessage => {
+  if (isBinaryPayload(data)) {
+    negotiatedFormat = "binary";
+    return decodeSnapshotBinary(data);
+  }
+  negotiatedFormat = "json";
+  return data;
+};
+
+const encodePaddleInputBinary = (input: PendingInput): ArrayBuffer => {
+  const buffer = new ArrayBuffer(PADDLE_INPUT_BYTES);
+  const view = new DataView(buffer);
+  view.setUint32(0, input.sequence, true);
+  view.setUint8(4, HAS_DIRECTION | HAS_TICKS);
+  view.setInt8(5, input.direction);
+  view.setUint8(6, input.ticks);
+  return buffer;
+};
+
+// Send a paddle input in whatever format the server agreed to
+export const emitPaddleInput = (socket: Socket, input: PendingInput) => {
+  socket.emit(
+    "paddle-input",
+    negotiatedFormat === "binary" ? encodePaddleInputBinary(input) : input
+  );
+};